@@ -3,6 +3,8 @@
  * Provides robust API endpoints with caching, error handling, and performance optimization
  */
 
+const search = require('@jetbrains/youtrack-scripting-api/search');
+
 // In-memory cache for backend operations
 const cache = new Map();
 const CACHE_TTL = 30000; // 30 seconds default
@@ -12,6 +14,14 @@ const rateLimitMap = new Map();
 const RATE_LIMIT_WINDOW = 60000; // 1 minute
 const RATE_LIMIT_MAX_REQUESTS = 100;
 
+const TIMER_FIELD = 'Timer Hash Data';
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+const DEFAULT_RANGE_MS = 30 * MS_PER_DAY;
+const DEFAULT_THRESHOLDS = { attentionThreshold: 2, longThreshold: 4, criticalThreshold: 8 };
+const MIN_BASELINE_SAMPLES = 5;
+
 /**
  * Utility functions for backend operations
  */
@@ -79,6 +89,21 @@ const utils = {
     return query.replace(/[<>\"'&]/g, '').substring(0, 500);
   },
 
+  /**
+   * Parse a timestamp request parameter (Unix ms)
+   */
+  parseTimeParameter(ctx, name, fallback) {
+    const value = parseInt(ctx.request.getParameter(name), 10);
+    return isNaN(value) ? fallback : value;
+  },
+
+  /**
+   * Format a timestamp as a YouTrack query date
+   */
+  formatQueryDate(timestamp) {
+    return new Date(timestamp).toISOString().split('T')[0];
+  },
+
   /**
    * Log with structured format
    */
@@ -130,15 +155,134 @@ const utils = {
   }
 };
 
+/**
+ * Issues and work items read through the scripting API, with the current user's visibility
+ */
+const youtrackData = {
+  /**
+   * Issues matching a YouTrack query
+   */
+  findIssues(query, user) {
+    const issues = [];
+    search.search(null, query, user).forEach(issue => issues.push(issue));
+    return issues;
+  },
+
+  /**
+   * Issues with timers, in the REST shape processTimerData reads
+   */
+  timerIssues(query, user) {
+    return this.findIssues(`has: {${TIMER_FIELD}} ${query || ''}`.trim(), user).map(issue => ({
+      id: issue.id,
+      summary: issue.summary,
+      numberInProject: issue.numberInProject,
+      resolved: issue.resolved,
+      project: {
+        shortName: issue.project.shortName,
+        name: issue.project.name,
+        archived: issue.project.isArchived
+      },
+      customFields: [{ name: TIMER_FIELD, value: issue.fields[TIMER_FIELD] }]
+    }));
+  },
+
+  /**
+   * Work items dated inside the range, flattened to plain objects
+   */
+  workItems(from, to, query, user) {
+    const items = [];
+    const rangeQuery = `work date: ${utils.formatQueryDate(from)} .. ${utils.formatQueryDate(to)} ${query || ''}`.trim();
+
+    this.findIssues(rangeQuery, user).forEach(issue => {
+      issue.workItems.forEach(item => {
+        if (item.date < from || item.date > to) return;
+
+        items.push({
+          author: item.author ? item.author.login : null,
+          minutes: item.duration || 0,
+          date: item.date,
+          type: item.type ? item.type.name : null,
+          project: issue.project.shortName
+        });
+      });
+    });
+
+    return items;
+  }
+};
+
 /**
  * Timer data processing functions
  */
 const timerProcessor = {
+  /**
+   * Start time of a Timer Hash Data value: Unix seconds/ms, ISO string or v2 payload `{ start }`
+   */
+  parseStart(value) {
+    const raw = value && typeof value === 'object' ? value.start : value;
+    const numeric = typeof raw === 'number' ? raw : /^\d+$/.test(String(raw)) ? parseInt(raw, 10) : NaN;
+
+    if (!isNaN(numeric)) {
+      return numeric < 1e11 ? numeric * 1000 : numeric;
+    }
+
+    const parsed = Date.parse(raw);
+    return isNaN(parsed) ? null : parsed;
+  },
+
+  /**
+   * Thresholds for a timer: user overrides > project overrides > global (same precedence as the widget)
+   */
+  resolveThresholds(alertConfig, username, projectShortName) {
+    const config = Object.assign({}, DEFAULT_THRESHOLDS, alertConfig);
+    const user = (config.customThresholds || {})[username] || {};
+    const project = (config.projectThresholds || {})[projectShortName] || {};
+    const pick = key => (user[key] !== undefined ? user[key] : project[key] !== undefined ? project[key] : config[key]);
+
+    return {
+      attentionThreshold: pick('attentionThreshold'),
+      longThreshold: pick('longThreshold'),
+      criticalThreshold: pick('criticalThreshold')
+    };
+  },
+
+  /**
+   * End of a segment or pause; missing means the segment is still open
+   */
+  parseEnd(value) {
+    return value === undefined || value === null ? null : this.parseStart(value);
+  },
+
+  /**
+   * Where a paused timer's open segment ends: `pausedAt`, or its start when that is missing or earlier
+   */
+  pauseEnd(start, rawPausedAt) {
+    const pausedAt = this.parseEnd(rawPausedAt);
+    return pausedAt !== null && pausedAt >= start ? pausedAt : start;
+  },
+
+  /**
+   * Running segments of a timer value, closed the way the widget's Timer Hash Data parser closes them
+   * A closed last segment also marks the timer as paused
+   */
+  runningSegments(value, startTime) {
+    const raw = Array.isArray(value.segments) && value.segments.length ? value.segments : [{ start: startTime }];
+    const segments = raw.map(segment => ({ start: this.parseStart(segment.start), end: this.parseEnd(segment.end) }));
+    const last = segments[segments.length - 1];
+    const paused = value.paused === true || last.end !== null;
+
+    if (paused && last.end === null) {
+      last.end = this.pauseEnd(last.start, value.pausedAt);
+    }
+
+    return { paused, segments };
+  },
+
   /**
    * Process raw timer hash data
    */
-  processTimerData(issues) {
-    const now = Date.now();
+  processTimerData(issues, options = {}) {
+    const now = options.now || Date.now();
     const entries = [];
 
     issues.forEach(issue => {
@@ -167,17 +311,28 @@ const timerProcessor = {
 
       const issueKey = `${issue.project.shortName}-${issue.numberInProject}`;
 
-      Object.entries(timerHashData).forEach(([username, timestamp]) => {
-        const startTime = parseInt(timestamp, 10);
-        if (isNaN(startTime)) return;
+      // Schema v2 envelope: { version, timers }
+      const timers = timerHashData.timers && typeof timerHashData.timers === 'object' ? timerHashData.timers : timerHashData;
+
+      Object.entries(timers).forEach(([username, value]) => {
+        const startTime = this.parseStart(value);
+        if (startTime === null) return;
 
-        const elapsedMs = now - startTime;
-        const hours = elapsedMs / (1000 * 60 * 60);
+        // Only running segments count; open segments run until now
+        const { paused, segments } = this.runningSegments(value, startTime);
+        const elapsedMs = segments.reduce((sum, { start, end }) => {
+          const until = Math.min(end !== null ? end : now, now);
+          return start !== null && until > start ? sum + until - start : sum;
+        }, 0);
+        const hours = elapsedMs / MS_PER_HOUR;
+        const thresholds = this.resolveThresholds(options.alertConfig, username, issue.project.shortName);
 
         let status = 'ok';
-        if (hours > 8) status = 'critical';
-        else if (hours > 4) status = 'long';
-        else if (hours > 2) status = 'attention';
+        if (issue.resolved || issue.project.archived) status = 'stale';
+        else if (paused) status = 'paused';
+        else if (hours >= thresholds.criticalThreshold) status = 'critical';
+        else if (hours >= thresholds.longThreshold) status = 'long';
+        else if (hours >= thresholds.attentionThreshold) status = 'attention';
 
         entries.push({
           id: `${issue.id}_${username}`,
@@ -189,7 +344,8 @@ const timerProcessor = {
           elapsedMs,
           status,
           projectName: issue.project.name || issue.project.shortName,
-          projectShortName: issue.project.shortName
+          projectShortName: issue.project.shortName,
+          worktype: value && typeof value.workType === 'string' ? value.workType : undefined
         });
       });
     });
@@ -200,6 +356,18 @@ const timerProcessor = {
     return entries;
   },
 
+  /**
+   * Client-side filters that cannot be part of the issue query (users, statuses, stale timers)
+   */
+  applyFilter(entries, filter = {}) {
+    return entries.filter(entry => {
+      if (filter.hideCompleted && entry.status === 'stale') return false;
+      if (filter.users && filter.users.length && filter.users.indexOf(entry.username) === -1) return false;
+      if (filter.statuses && filter.statuses.length && filter.statuses.indexOf(entry.status) === -1) return false;
+      return true;
+    });
+  },
+
   /**
    * Calculate statistics from timer entries
    */
@@ -207,11 +375,15 @@ const timerProcessor = {
     const uniqueUsers = new Set(entries.map(e => e.username));
     const projectBreakdown = {};
     const userBreakdown = {};
+    const worktypeBreakdown = {};
+    const issueBreakdown = {};
 
     let totalTimeMs = 0;
     let criticalTimers = 0;
     let longTimers = 0;
     let attentionTimers = 0;
+    let pausedTimers = 0;
+    let staleTimers = 0;
 
     entries.forEach(entry => {
       totalTimeMs += entry.elapsedMs;
@@ -220,6 +392,8 @@ const timerProcessor = {
         case 'critical': criticalTimers++; break;
         case 'long': longTimers++; break;
         case 'attention': attentionTimers++; break;
+        case 'paused': pausedTimers++; break;
+        case 'stale': staleTimers++; break;
       }
 
       // Project breakdown
@@ -257,6 +431,46 @@ const timerProcessor = {
       user.longestTimerMs = Math.max(user.longestTimerMs, entry.elapsedMs);
       if (entry.status === 'critical') user.criticalCount++;
       user.projects.add(entry.projectShortName);
+
+      // Worktype breakdown
+      const worktypeKey = entry.worktype || '';
+      if (!worktypeBreakdown[worktypeKey]) {
+        worktypeBreakdown[worktypeKey] = {
+          worktype: entry.worktype || null,
+          timerCount: 0,
+          totalTimeMs: 0,
+          users: new Set()
+        };
+      }
+      const worktype = worktypeBreakdown[worktypeKey];
+      worktype.timerCount++;
+      worktype.totalTimeMs += entry.elapsedMs;
+      worktype.users.add(entry.username);
+
+      // Issue breakdown
+      if (!issueBreakdown[entry.issueId]) {
+        issueBreakdown[entry.issueId] = {
+          issueId: entry.issueId,
+          issueKey: entry.issueKey,
+          issueSummary: entry.issueSummary,
+          projectShortName: entry.projectShortName,
+          timerCount: 0,
+          contributors: [],
+          concurrentContributors: 0,
+          totalTimeMs: 0,
+          firstStartTime: entry.startTime,
+          lastStartTime: entry.startTime,
+          criticalCount: 0
+        };
+      }
+      const issue = issueBreakdown[entry.issueId];
+      issue.timerCount++;
+      issue.totalTimeMs += entry.elapsedMs;
+      issue.firstStartTime = Math.min(issue.firstStartTime, entry.startTime);
+      issue.lastStartTime = Math.max(issue.lastStartTime, entry.startTime);
+      if (!issue.contributors.includes(entry.username)) issue.contributors.push(entry.username);
+      if (entry.status !== 'paused' && entry.status !== 'stale') issue.concurrentContributors++;
+      if (entry.status === 'critical') issue.criticalCount++;
     });
 
     // Convert sets to arrays
@@ -265,6 +479,11 @@ const timerProcessor = {
       project.averageTimeMs = project.timerCount > 0 ? project.totalTimeMs / project.timerCount : 0;
     });
 
+    Object.values(worktypeBreakdown).forEach(worktype => {
+      worktype.users = Array.from(worktype.users);
+      worktype.averageTimeMs = worktype.timerCount > 0 ? worktype.totalTimeMs / worktype.timerCount : 0;
+    });
+
     Object.values(userBreakdown).forEach(user => {
       user.projects = Array.from(user.projects);
       user.averageTimeMs = user.timerCount > 0 ? user.totalTimeMs / user.timerCount : 0;
@@ -276,11 +495,99 @@ const timerProcessor = {
       criticalTimers,
       longTimers,
       attentionTimers,
+      pausedTimers,
+      staleTimers,
+      unusualTimers: 0, // Anomaly baselines are computed client-side
       totalTimeMs,
       averageTimeMs: entries.length > 0 ? totalTimeMs / entries.length : 0,
       longestTimerMs: entries.length > 0 ? Math.max(...entries.map(e => e.elapsedMs)) : 0,
       projectBreakdown: Object.values(projectBreakdown),
-      userBreakdown: Object.values(userBreakdown)
+      userBreakdown: Object.values(userBreakdown),
+      worktypeBreakdown: Object.values(worktypeBreakdown),
+      issueBreakdown: Object.values(issueBreakdown)
+    };
+  }
+};
+
+/**
+ * Work item aggregation: trend series, rollups and duration baselines
+ */
+const workItemProcessor = {
+  /**
+   * Linear interpolation quantile over sorted values
+   */
+  quantile(sorted, q) {
+    if (sorted.length === 0) return 0;
+
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  },
+
+  /**
+   * Totals per user, project, work type and calendar day, plus per-user duration baselines
+   * Days are keyed YYYY-MM-DD (work item dates are the UTC midnight of the day), so the widget can place them in the viewer's time zone
+   */
+  rollup(items) {
+    const groups = { byUser: {}, byProject: {}, byType: {}, byDay: {} };
+    const durations = { byUser: {}, byUserWorktype: {} };
+    let totalMinutes = 0;
+
+    const add = (group, key, minutes) => {
+      if (!key) return;
+      const entry = group[key] || (group[key] = { key, count: 0, totalMinutes: 0 });
+      entry.count++;
+      entry.totalMinutes += minutes;
+    };
+
+    const push = (group, key, value) => {
+      (group[key] || (group[key] = [])).push(value);
+    };
+
+    items.forEach(item => {
+      totalMinutes += item.minutes;
+      add(groups.byUser, item.author, item.minutes);
+      add(groups.byProject, item.project, item.minutes);
+      add(groups.byType, item.type, item.minutes);
+      add(groups.byDay, new Date(item.date).toISOString().slice(0, 10), item.minutes);
+
+      if (!item.author || item.minutes <= 0) return;
+      push(durations.byUser, item.author, item.minutes * MS_PER_MINUTE);
+      if (item.type) {
+        push(durations.byUserWorktype, `${item.author}::${item.type.toLowerCase()}`, item.minutes * MS_PER_MINUTE);
+      }
+    });
+
+    const sorted = group => Object.values(group).sort((a, b) => b.totalMinutes - a.totalMinutes);
+    const baselines = group => {
+      const result = {};
+      Object.entries(group).forEach(([key, values]) => {
+        if (values.length < MIN_BASELINE_SAMPLES) return;
+        const samplesMs = values.sort((a, b) => a - b);
+        result[key] = {
+          sampleCount: samplesMs.length,
+          medianMs: this.quantile(samplesMs, 0.5),
+          q1Ms: this.quantile(samplesMs, 0.25),
+          q3Ms: this.quantile(samplesMs, 0.75),
+          samplesMs
+        };
+      });
+      return result;
+    };
+
+    return {
+      count: items.length,
+      totalMinutes,
+      byUser: sorted(groups.byUser),
+      byProject: sorted(groups.byProject),
+      byType: sorted(groups.byType),
+      byDay: Object.values(groups.byDay).sort((a, b) => a.key.localeCompare(b.key)),
+      baselines: {
+        byUser: baselines(durations.byUser),
+        byUserWorktype: baselines(durations.byUserWorktype)
+      }
     };
   }
 };
@@ -333,24 +640,19 @@ exports.httpHandler = {
           const userId = ctx.request.getParameter('user');
           const cacheKey = `timers_${projectId || 'all'}_${userId || 'all'}`;
 
-          const result = await utils.getOrCache(cacheKey, async () => {
-            // Build query
-            let query = 'has: {Timer Hash Data}';
-            if (projectId) {
-              query += ` project: ${utils.sanitizeQuery(projectId)}`;
-            }
-
-            const fields = 'id,summary,project(shortName,name),numberInProject,customFields(name,value,field(name))';
+          const result = await utils.getOrCache(`${cacheKey}_${ctx.currentUser.login}`, async () => {
+            const query = projectId ? `project: {${utils.sanitizeQuery(projectId)}}` : '';
 
             utils.log('INFO', 'Fetching timer data', { query, projectId, userId });
 
-            // This would typically make the actual YouTrack API call
-            // For now, return mock data structure
-            const mockIssues = []; // In real implementation, this would be fetched from YouTrack
+            const timers = timerProcessor.applyFilter(
+              timerProcessor.processTimerData(youtrackData.timerIssues(query, ctx.currentUser)),
+              { users: userId ? [userId] : [] }
+            );
 
             return {
-              timers: timerProcessor.processTimerData(mockIssues),
-              stats: timerProcessor.calculateStats(timerProcessor.processTimerData(mockIssues))
+              timers,
+              stats: timerProcessor.calculateStats(timers)
             };
           });
 
@@ -380,23 +682,14 @@ exports.httpHandler = {
 
         try {
           const scope = ctx.request.getParameter('scope') || 'global';
-          const cacheKey = `stats_${scope}`;
+          const cacheKey = `stats_${scope}_${ctx.currentUser.login}`;
 
+          // Scope is `global` or a project short name
           const stats = await utils.getOrCache(cacheKey, async () => {
-            // In real implementation, this would aggregate timer data
-            return {
-              totalUsers: 0,
-              totalTimers: 0,
-              criticalTimers: 0,
-              averageTimeMs: 0,
-              topProjects: [],
-              topUsers: [],
-              trends: {
-                hourly: [],
-                daily: [],
-                weekly: []
-              }
-            };
+            const query = scope === 'global' ? '' : `project: {${utils.sanitizeQuery(scope)}}`;
+            return timerProcessor.calculateStats(
+              timerProcessor.processTimerData(youtrackData.timerIssues(query, ctx.currentUser))
+            );
           });
 
           utils.successResponse(ctx, stats, { scope });
@@ -407,6 +700,58 @@ exports.httpHandler = {
       }
     },
 
+    /**
+     * Work item rollups (totals per user, project, type and day, duration baselines) for a range
+     * Timers are not aggregated here: the widget lists every timer, so it computes their stats itself
+     * Parameters: from/to (Unix ms), query (YouTrack search)
+     */
+    {
+      method: 'GET',
+      path: 'analytics',
+      handle: async function(ctx) {
+        const clientId = ctx.request.getRemoteAddr() || 'unknown';
+
+        if (!utils.checkRateLimit(clientId)) {
+          return utils.errorResponse(ctx, 429, 'RATE_LIMIT_EXCEEDED', 'Too many requests');
+        }
+
+        try {
+          const now = Date.now();
+          const to = utils.parseTimeParameter(ctx, 'to', now);
+          const from = utils.parseTimeParameter(ctx, 'from', to - DEFAULT_RANGE_MS);
+          // Passed to search as a parameter, unchanged: quotes and long custom queries are valid YouTrack syntax
+          const query = ctx.request.getParameter('query') || '';
+
+          if (from >= to) {
+            return utils.errorResponse(ctx, 400, 'INVALID_RANGE', '`from` must be before `to`', { from, to });
+          }
+
+          // Visibility depends on the user, so results are cached per user
+          const cacheKey = ['analytics', ctx.currentUser.login, from, to, query].join('_');
+
+          const result = await utils.getOrCache(cacheKey, async () => {
+            const workItems = youtrackData.workItems(from, to, query, ctx.currentUser);
+
+            utils.log('INFO', 'Analytics aggregated', { from, to, query, workItems: workItems.length });
+
+            return {
+              range: { from, to },
+              workItems: workItemProcessor.rollup(workItems),
+              generatedAt: now
+            };
+          });
+
+          utils.successResponse(ctx, result, { cacheKey });
+
+        } catch (error) {
+          utils.log('ERROR', 'Failed to aggregate analytics', { error: error.message });
+          utils.errorResponse(ctx, 500, 'ANALYTICS_ERROR', 'Failed to aggregate analytics', {
+            details: error.message
+          });
+        }
+      }
+    },
+
     /**
      * Health check endpoint
      */
@@ -468,6 +813,7 @@ exports.httpHandler = {
           supportedFeatures: [
             'timer-processing',
             'statistics',
+            'analytics-aggregation',
             'caching',
             'rate-limiting',
             'error-handling'
@@ -0,0 +1,72 @@
+/**
+ * Tests for the app backend (backend.js)
+ * The backend is CommonJS run by YouTrack, so it is evaluated with a stubbed scripting API
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { runInNewContext } from 'node:vm';
+import { describe, it, expect } from 'vitest';
+import { PAUSED_TIMERS_FIXTURE } from './test/fixtures';
+
+interface BackendTimer {
+  username: string;
+  elapsedMs: number;
+  status: string;
+}
+
+/**
+ * Evaluate backend.js with `search` returning the given issues and a clock frozen at `now`
+ */
+function loadBackend(issues: unknown[], now: number) {
+  const FrozenDate = class extends Date {
+    constructor(...args: []) {
+      super(...(args.length ? args : [now]) as []);
+    }
+
+    static now() {
+      return now;
+    }
+  };
+  const search = { search: () => issues };
+  const exports: { httpHandler?: { endpoints: Array<{ path: string; handle: (ctx: unknown) => Promise<void> }> } } = {};
+
+  runInNewContext(readFileSync(resolve(__dirname, 'backend.js'), 'utf8'), {
+    require: () => search,
+    exports,
+    console: { log: () => undefined },
+    Date: FrozenDate
+  });
+
+  return exports.httpHandler;
+}
+
+async function fetchTimers(issues: unknown[], now: number): Promise<BackendTimer[]> {
+  const handler = loadBackend(issues, now);
+  let body: { data: { timers: BackendTimer[] } } | undefined;
+
+  await handler.endpoints.find(endpoint => endpoint.path === 'timers').handle({
+    currentUser: { login: 'admin' },
+    request: { getParameter: () => null, getRemoteAddr: () => '127.0.0.1' },
+    response: { status: () => undefined, json: (value: typeof body) => { body = value; } }
+  });
+
+  return body.data.timers;
+}
+
+describe('backend timers endpoint', () => {
+  it('should report the same elapsed time as the widget for the shared fixture', async () => {
+    const { now, timerHashData, expected } = PAUSED_TIMERS_FIXTURE;
+    const timers = await fetchTimers([{
+      id: '2-1',
+      summary: 'Paused work',
+      numberInProject: 1,
+      resolved: null,
+      project: { shortName: 'WEB', name: 'Web', isArchived: false },
+      fields: { 'Timer Hash Data': JSON.stringify(timerHashData) }
+    }], now);
+
+    expect(Object.fromEntries(timers.map(({ username, elapsedMs, status }) => [username, { elapsedMs, status }])))
+      .toEqual(expected);
+  });
+});
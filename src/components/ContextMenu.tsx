@@ -336,14 +336,15 @@ export const useTimerContextMenu = () => {
         label: 'Ações do Timer',
         icon: '⏱️',
         submenu: [
-          {
+          // A paused timer cannot be paused again (there is no resume command yet)
+          ...(timerData?.status === 'paused' ? [] : [{
             id: 'pause-timer',
             label: 'Pausar Timer',
             icon: '⏸️',
             onClick: () => {
               console.log('Pause timer', timerData);
             }
-          },
+          }]),
           {
             id: 'stop-timer',
             label: 'Parar Timer',
@@ -25,6 +25,8 @@ export const OptimizedTimerItem = memo<{
       case 'critical': return '🚨';
       case 'long': return '⚠️';
       case 'attention': return '⚠️';
+      case 'paused': return '⏸️';
+      case 'stale': return '🗄️';
       default: return '✅';
     }
   }, [timer.status]);
@@ -265,19 +265,19 @@ export function useOptimizedData<T>(
 export function useTimerData(options: UseOptimizedDataOptions & {
   projectId?: string;
   userId?: string;
-  limit?: number;
+  limit?: number; // Safety cap; every page is loaded up to it
 } = {}) {
-  const { projectId, userId, limit = 100, ...restOptions } = options;
+  const { projectId, userId, limit, ...restOptions } = options;
 
   const api = useMemo(() => new YouTrackAPI(), []);
 
   const fetcher = useCallback(async () => {
-    const issues = await api.fetchIssuesWithTimers({
-      projectId,
-      limit
-    });
-
-    let timers = api.processTimerData ? api.processTimerData(issues) : [];
+    // Process each page as it arrives instead of waiting for every issue
+    let timers: any[] = [];
+    for await (const page of api.iterateIssuesWithTimers({ projectId, limit })) {
+      timers.push(...api.processTimerData(page));
+    }
+    timers.sort((a, b) => b.elapsedMs - a.elapsedMs);
 
     if (userId) {
       timers = timers.filter((timer: any) => timer.username === userId);
@@ -290,7 +290,7 @@ export function useTimerData(options: UseOptimizedDataOptions & {
   }, [api, projectId, userId, limit]);
 
   const cacheKey = useMemo(() => {
-    return `timer_data_${projectId || 'all'}_${userId || 'all'}_${limit}`;
+    return `timer_data_${projectId || 'all'}_${userId || 'all'}_${limit || 'all'}`;
   }, [projectId, userId, limit]);
 
   return useOptimizedData(fetcher, {
@@ -0,0 +1,46 @@
+/**
+ * Tests for the offline analytics snapshot
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ANALYTICS_SNAPSHOT_FALLBACK,
+  AnalyticsSnapshotFallback,
+  readAnalyticsSnapshot,
+  storeAnalyticsSnapshot
+} from './analyticsSnapshot';
+import { createError, ErrorHandler } from './errorHandler';
+import { AnalyticsData } from '../types';
+
+const data = { timers: [], hiddenTimers: 0 } as unknown as AnalyticsData;
+
+// Mimics the dashboard API, which returns stored values wrapped as { result }
+const cacheHost = () => {
+  let stored: unknown = null;
+  return {
+    storeCache: async (value: unknown) => { stored = value; },
+    readCache: async () => (stored === null ? null : { result: stored })
+  };
+};
+
+describe('analytics snapshot', () => {
+  it('should round-trip the last data through the widget cache', async () => {
+    const host = cacheHost();
+    await storeAnalyticsSnapshot(host, data, 1000);
+
+    await expect(readAnalyticsSnapshot(host)).resolves.toEqual({ version: 1, savedAt: 1000, data });
+    await expect(readAnalyticsSnapshot({})).resolves.toBeNull();
+  });
+
+  it('should serve the snapshot as fallback for network errors only', async () => {
+    const host = cacheHost();
+    await storeAnalyticsSnapshot(host, data, 1000);
+    const handler = new ErrorHandler({ logErrors: false, showUserMessages: false, reportToService: false, retryFailedRequests: false, maxRetries: 0, fallbackData: null });
+    handler.registerFallbackProvider(ANALYTICS_SNAPSHOT_FALLBACK, new AnalyticsSnapshotFallback(host));
+
+    await expect(handler.handleError(createError.network('offline', 'CONNECTION_FAILED'), undefined, ANALYTICS_SNAPSHOT_FALLBACK))
+      .resolves.toMatchObject({ savedAt: 1000 });
+    await expect(handler.handleError(createError.permission('denied', 'PERMISSION_DENIED'), undefined, ANALYTICS_SNAPSHOT_FALLBACK))
+      .rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+  });
+});
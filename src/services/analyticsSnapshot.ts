@@ -0,0 +1,80 @@
+/**
+ * Analytics Snapshot
+ * Persists the last successful AnalyticsData through the widget cache API (`storeCache`/`readCache`),
+ * so the widget can show it instantly on load and while YouTrack is slow or unreachable
+ */
+
+import { AnalyticsData, AnalyticsSnapshot, AppError } from '../types';
+import { FallbackProvider } from './errorHandler';
+import { Logger } from './logger';
+
+export const ANALYTICS_SNAPSHOT_VERSION = 1;
+
+/**
+ * Fallback key for `globalErrorHandler`
+ */
+export const ANALYTICS_SNAPSHOT_FALLBACK = 'analytics-snapshot';
+
+const logger = Logger.getLogger('AnalyticsSnapshot');
+
+/**
+ * Read the stored snapshot; null when missing, unreadable or written by another version
+ */
+export async function readAnalyticsSnapshot(host?: any): Promise<AnalyticsSnapshot | null> {
+  if (!host?.readCache) {
+    return null;
+  }
+
+  try {
+    const cached = await host.readCache();
+    // The dashboard API wraps stored values as { result }
+    const snapshot = (cached && 'result' in cached ? cached.result : cached) as AnalyticsSnapshot | null;
+
+    if (!snapshot?.data || snapshot.version !== ANALYTICS_SNAPSHOT_VERSION) {
+      return null;
+    }
+
+    return snapshot;
+  } catch (error) {
+    logger.warn('Failed to read analytics snapshot', { error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Store the data of a successful load; failures are logged, never thrown
+ */
+export async function storeAnalyticsSnapshot(host: any, data: AnalyticsData, now: number = Date.now()): Promise<void> {
+  if (!host?.storeCache) {
+    return;
+  }
+
+  const snapshot: AnalyticsSnapshot = { version: ANALYTICS_SNAPSHOT_VERSION, savedAt: now, data };
+
+  try {
+    await host.storeCache(snapshot);
+  } catch (error) {
+    logger.warn('Failed to store analytics snapshot', { error: (error as Error).message });
+  }
+}
+
+/**
+ * Serves the stored snapshot when loading fails for network or API reasons.
+ * Permission and configuration errors still surface: stale data would hide them
+ */
+export class AnalyticsSnapshotFallback implements FallbackProvider<AnalyticsSnapshot> {
+  constructor(private host: any) {}
+
+  canProvideFallback(error: AppError): boolean {
+    return error.type === 'NETWORK_ERROR' || error.type === 'API_ERROR';
+  }
+
+  async getFallbackData(error: AppError): Promise<AnalyticsSnapshot> {
+    const snapshot = await readAnalyticsSnapshot(this.host);
+    if (!snapshot) {
+      throw error;
+    }
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for timer anomaly scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDurationBaselines, scoreTimerAnomaly } from './anomaly';
+import { TimerEntry } from '../types';
+
+const MINUTE = 60 * 1000;
+
+const workItem = (login: string, minutes: number, type?: string) => ({
+  author: { login },
+  duration: { minutes },
+  type: type ? { name: type } : undefined
+});
+
+const timer = (username: string, elapsedMs: number, worktype?: string) => ({
+  username,
+  elapsedMs,
+  worktype
+} as TimerEntry);
+
+describe('buildDurationBaselines', () => {
+  it('should compute median and quartiles per user and skip thin histories', () => {
+    const baselines = buildDurationBaselines([
+      ...[10, 20, 30, 40, 50].map(minutes => workItem('alice', minutes, 'Development')),
+      workItem('bob', 60)
+    ]);
+
+    expect(baselines.byUser.alice).toMatchObject({ sampleCount: 5, medianMs: 30 * MINUTE, q1Ms: 20 * MINUTE, q3Ms: 40 * MINUTE });
+    expect(baselines.byUserWorktype['alice::development'].sampleCount).toBe(5);
+    expect(baselines.byUser.bob).toBeUndefined();
+  });
+});
+
+describe('scoreTimerAnomaly', () => {
+  const baselines = buildDurationBaselines([
+    ...[15, 20, 20, 25, 30].map(minutes => workItem('alice', minutes)),
+    ...[120, 180, 240, 300, 360].map(minutes => workItem('bob', minutes))
+  ]);
+
+  it('should flag a long timer from someone with short sessions', () => {
+    const anomaly = scoreTimerAnomaly(timer('alice', 3 * 60 * MINUTE), baselines);
+
+    expect(anomaly?.unusual).toBe(true);
+    expect(anomaly?.percentile).toBe(100);
+    expect(anomaly?.baseline).toBe('user');
+  });
+
+  it('should not flag the same duration for someone with long sessions', () => {
+    expect(scoreTimerAnomaly(timer('bob', 3 * 60 * MINUTE), baselines)?.unusual).toBe(false);
+  });
+
+  it('should return undefined without history', () => {
+    expect(scoreTimerAnomaly(timer('carol', MINUTE), baselines)).toBeUndefined();
+  });
+});
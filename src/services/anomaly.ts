@@ -0,0 +1,145 @@
+/**
+ * Timer Anomaly Scoring
+ * Builds per-user duration baselines from work item history and scores running timers against them,
+ * so a timer can be flagged as unusual for its owner regardless of the absolute thresholds
+ */
+
+import { AlertConfig, DeepPartial, DurationBaseline, DurationBaselines, TimerAnomaly, TimerEntry, YouTrackWorkItem } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// IQR / 1.349 estimates the standard deviation of a normal distribution
+const IQR_TO_SIGMA = 1.349;
+
+// Lower bound for the spread so users with identical sessions don't get infinite scores
+const MIN_SCALE_MS = 5 * MS_PER_MINUTE;
+
+export const DEFAULT_ANOMALY_THRESHOLD = 3;
+export const MIN_BASELINE_SAMPLES = 5;
+
+/**
+ * Key for the per user + work type baseline
+ */
+export const baselineKey = (username: string, worktype: string) => `${username}::${worktype.toLowerCase()}`;
+
+/**
+ * Linear interpolation quantile over sorted values
+ */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toBaseline(durations: number[]): DurationBaseline {
+  const samplesMs = [...durations].sort((a, b) => a - b);
+
+  return {
+    sampleCount: samplesMs.length,
+    medianMs: quantile(samplesMs, 0.5),
+    q1Ms: quantile(samplesMs, 0.25),
+    q3Ms: quantile(samplesMs, 0.75),
+    samplesMs
+  };
+}
+
+/**
+ * Build duration baselines from work items (duration in minutes, author login, work type name)
+ * Groups with fewer than `minSamples` sessions are left out
+ */
+export function buildDurationBaselines(
+  workItems: Array<DeepPartial<YouTrackWorkItem>>,
+  options: { minSamples?: number } = {}
+): DurationBaselines {
+  const minSamples = options.minSamples ?? MIN_BASELINE_SAMPLES;
+  const byUser = new Map<string, number[]>();
+  const byUserWorktype = new Map<string, number[]>();
+
+  const push = (map: Map<string, number[]>, key: string, value: number) => {
+    const values = map.get(key) || [];
+    values.push(value);
+    map.set(key, values);
+  };
+
+  workItems.forEach(item => {
+    const login = item.author?.login;
+    const minutes = item.duration?.minutes;
+    if (!login || typeof minutes !== 'number' || minutes <= 0) return;
+
+    const durationMs = minutes * MS_PER_MINUTE;
+    push(byUser, login, durationMs);
+
+    if (item.type?.name) {
+      push(byUserWorktype, baselineKey(login, item.type.name), durationMs);
+    }
+  });
+
+  const finalize = (map: Map<string, number[]>) => {
+    const result: Record<string, DurationBaseline> = {};
+    map.forEach((durations, key) => {
+      if (durations.length >= minSamples) {
+        result[key] = toBaseline(durations);
+      }
+    });
+    return result;
+  };
+
+  return { byUser: finalize(byUser), byUserWorktype: finalize(byUserWorktype) };
+}
+
+/**
+ * Score a timer against the most specific baseline available (user + work type, then user)
+ * Returns undefined when the user has no usable history
+ */
+export function scoreTimerAnomaly(
+  entry: TimerEntry,
+  baselines: DurationBaselines,
+  threshold: number = DEFAULT_ANOMALY_THRESHOLD
+): TimerAnomaly | undefined {
+  const worktypeBaseline = entry.worktype
+    ? baselines.byUserWorktype[baselineKey(entry.username, entry.worktype)]
+    : undefined;
+  const userBaseline = baselines.byUser[entry.username];
+  const baseline = worktypeBaseline || userBaseline;
+
+  if (!baseline) {
+    return undefined;
+  }
+
+  const scale = Math.max((baseline.q3Ms - baseline.q1Ms) / IQR_TO_SIGMA, MIN_SCALE_MS);
+  const score = (entry.elapsedMs - baseline.medianMs) / scale;
+  const shorterOrEqual = baseline.samplesMs.filter(duration => duration <= entry.elapsedMs).length;
+
+  return {
+    score: Math.round(score * 100) / 100,
+    percentile: Math.round((shorterOrEqual / baseline.sampleCount) * 100),
+    baseline: worktypeBaseline ? 'user_worktype' : 'user',
+    sampleCount: baseline.sampleCount,
+    medianMs: baseline.medianMs,
+    unusual: score >= threshold
+  };
+}
+
+/**
+ * Attach anomaly scores to timer entries (paused and stale timers are not scored)
+ */
+export function attachAnomalyScores(
+  entries: TimerEntry[],
+  baselines: DurationBaselines,
+  config?: Pick<AlertConfig, 'anomalyThreshold'>
+): TimerEntry[] {
+  const threshold = config?.anomalyThreshold ?? DEFAULT_ANOMALY_THRESHOLD;
+
+  return entries.map(entry => {
+    if (entry.status === 'paused' || entry.status === 'stale') {
+      return entry;
+    }
+
+    const anomaly = scoreTimerAnomaly(entry, baselines, threshold);
+    return anomaly ? { ...entry, anomaly } : entry;
+  });
+}
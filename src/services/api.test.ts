@@ -0,0 +1,130 @@
+/**
+ * Tests for timer processing helpers in the API module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateIssueBreakdown, calculateStats, processTimerData, YouTrackAPI } from './api';
+import { parseTimerHashData } from './timerHashParser';
+import { DEFAULT_WORK_CALENDAR } from './workCalendar';
+import { IssueWithTimer, TimerEntry, Transport } from '../types';
+import { PAUSED_TIMERS_FIXTURE, timerEntry } from '../test/fixtures';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 2, 11, 15);
+
+const entry = (issueId: string, username: string, hours: number, extra: Partial<TimerEntry> = {}): TimerEntry => timerEntry({
+  issueId,
+  issueKey: `WEB-${issueId}`,
+  username,
+  startTime: NOW - hours * HOUR,
+  elapsedMs: hours * HOUR,
+  wallElapsedMs: hours * HOUR,
+  lastUpdated: NOW,
+  ...extra
+});
+
+describe('calculateIssueBreakdown', () => {
+  it('should combine the timers of each issue and put shared issues first', () => {
+    const breakdown = calculateIssueBreakdown([
+      entry('1', 'alice', 10, { status: 'critical' }),
+      entry('2', 'alice', 1),
+      entry('2', 'bob', 3, { status: 'attention' }),
+      entry('2', 'carol', 2, { status: 'paused', paused: true })
+    ]);
+
+    expect(breakdown.map(issue => issue.issueId)).toEqual(['2', '1']);
+    expect(breakdown[0]).toMatchObject({
+      timerCount: 3,
+      contributors: ['alice', 'bob', 'carol'],
+      // Paused timers contribute time but are not working right now
+      concurrentContributors: 2,
+      totalTimeMs: 6 * HOUR,
+      firstStartTime: NOW - 3 * HOUR,
+      lastStartTime: NOW - HOUR,
+      criticalCount: 0
+    });
+    expect(breakdown[1]).toMatchObject({ concurrentContributors: 1, totalTimeMs: 10 * HOUR, criticalCount: 1 });
+  });
+
+  it('should follow the requested elapsed mode', () => {
+    const timers = [entry('1', 'alice', 10, { workingElapsedMs: 2 * HOUR })];
+
+    expect(calculateIssueBreakdown(timers, { elapsedMode: 'working' })[0].totalTimeMs).toBe(2 * HOUR);
+    expect(calculateStats(timers).issueBreakdown[0].totalTimeMs).toBe(10 * HOUR);
+  });
+});
+
+describe('processTimerData paused timers', () => {
+  const issue = (timerHashData: Record<string, unknown>, now: number): IssueWithTimer => ({
+    id: '2-1',
+    summary: 'Paused work',
+    project: { id: '0-1', name: 'Web', shortName: 'WEB', archived: false },
+    numberInProject: 1,
+    timerHashData: timerHashData as IssueWithTimer['timerHashData'],
+    parsedTimers: parseTimerHashData(timerHashData, { issueId: '2-1', now }).timers,
+    created: 0,
+    updated: 0
+  });
+
+  it('should count running segments only and report the paused time', () => {
+    const [timer] = processTimerData([issue({
+      alice: { segments: [{ start: NOW - 5 * HOUR, end: NOW - 4 * HOUR }, { start: NOW - 2 * HOUR }] }
+    }, NOW)], { now: NOW });
+
+    expect(timer).toMatchObject({ wallElapsedMs: 3 * HOUR, pausedMs: 2 * HOUR, paused: false, status: 'attention' });
+  });
+
+  it('should stop counting at the pause', () => {
+    const [paused] = processTimerData([issue({ alice: { start: NOW - 5 * HOUR, paused: true, pausedAt: NOW - 4 * HOUR } }, NOW)], { now: NOW });
+    const [unknownPause] = processTimerData([issue({ alice: { start: NOW - 5 * HOUR, paused: true } }, NOW)], { now: NOW });
+
+    expect(paused).toMatchObject({ wallElapsedMs: HOUR, pausedMs: 4 * HOUR, status: 'paused' });
+    // Without pausedAt nothing is known to have run, instead of five hours
+    expect(unknownPause).toMatchObject({ wallElapsedMs: 0, pausedMs: 5 * HOUR, status: 'paused' });
+  });
+
+  it('should sum working time per running segment', () => {
+    // Monday 2024-01-08 local: 08:00-10:00 and 16:00-20:00 give 1h + 1h inside 09:00-17:00
+    const day = (hour: number) => new Date(2024, 0, 8, hour).getTime();
+    const now = day(20);
+    const [timer] = processTimerData([issue({
+      alice: { segments: [{ start: day(8), end: day(10) }, { start: day(16) }] }
+    }, now)], { now, workCalendar: DEFAULT_WORK_CALENDAR });
+
+    expect(timer).toMatchObject({ wallElapsedMs: 6 * HOUR, workingElapsedMs: 2 * HOUR });
+  });
+
+  it('should report the same elapsed time as the backend for the shared fixture', () => {
+    const { now, timerHashData, expected } = PAUSED_TIMERS_FIXTURE;
+    const timers = processTimerData([issue(timerHashData, now)], { now });
+
+    expect(Object.fromEntries(timers.map(({ username, elapsedMs, status }) => [username, { elapsedMs, status }])))
+      .toEqual(expected);
+  });
+});
+
+describe('YouTrackAPI.fetchAllUsers', () => {
+  it('should read every page of the user directory', async () => {
+    const users = Array.from({ length: 1234 }, (_, index) => ({ id: `1-${index}`, login: `user${index}` }));
+    const transport: Transport = {
+      name: 'paged',
+      request: async <T>({ endpoint }) => {
+        const params = new URLSearchParams(endpoint.split('?')[1]);
+        const skip = Number(params.get('$skip'));
+        return { data: users.slice(skip, skip + Number(params.get('$top'))) as T, status: 200, statusText: 'OK', headers: {} };
+      }
+    };
+    const api = new YouTrackAPI(undefined, {
+      maxRetries: 0,
+      rateLimit: { maxRequests: 100, windowMs: 1000 },
+      cache: { enabled: false, defaultTtl: 0 },
+      pagination: { pageSize: 500, concurrency: 1, maxItems: 10000 },
+      transport
+    });
+
+    const fetched = await api.fetchAllUsers();
+
+    expect(fetched).toHaveLength(1234);
+    expect(fetched[1233].login).toBe('user1233');
+  });
+});
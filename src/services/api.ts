@@ -14,50 +14,213 @@ import {
   YouTrackProject,
   YouTrackUser,
   YouTrackTag,
-  RateLimitConfig
+  YouTrackWorkItem,
+  YouTrackWorkItemType,
+  TimerProcessingOptions,
+  ElapsedTimeMode,
+  YouTrackAppearanceProfile,
+  YouTrackTimeTrackingProfile,
+  TimerParseDiagnostic,
+  WorkItemTypeRef,
+  IssueTimerStats,
+  PaginationOptions,
+  TimerSyncResult,
+  RequestPriority,
+  Transport,
+  FilterConfig,
+  AlertConfig,
+  BackendAnalytics,
+  TimerEvent,
+  TimerEventContext,
+  TimerEventRange,
+  TimerEventSource,
+  TimerActivityRequest
 } from '../types';
 import { globalCache, CacheKeyGenerator } from './cache';
 import { globalErrorHandler, HandleErrors, createError } from './errorHandler';
 import { Logger, RequestIdGenerator, Logged } from './logger';
-import { debounce } from 'throttle-debounce';
+import { classifyTimerStatus, resolveThresholds } from './thresholds';
+import { calculateWorkingElapsedMs, getEntryElapsedMs } from './workCalendar';
+import { parseTimerHashData } from './timerHashParser';
+import { resolveTimerWorkTypes } from './worktype';
+import { CommentTimerEventSource, mergeTimerEvents } from './timerEvents';
+import { ActivityTimerEventSource } from './timerHistory';
+import { attachAnomalyScores } from './anomaly';
+import { trendCalendarFromProfile } from './trends';
+import { DEFAULT_PAGINATION, collectPages, paginate } from './pagination';
+import { TokenBucketRateLimiter } from './rateLimiter';
+import { globalRequestCoalescer } from './requestCoalescer';
+import { AppBackendTransport, HostTransport, HubTransport, RestTransport, endpointKey } from './transport';
+import { projection, ProjectionResult } from './projection';
+import { buildUpdatedSinceQuery, DEFAULT_TIMER_SYNC, TimerSyncState } from './timerSync';
+import { compileQuery, filterConfigToQuery, q, QueryNode } from './youtrackQuery';
+import { aggregateSpentTime, attachEstimations, isEstimationField, periodValueToMs } from './estimation';
 
 /**
- * Rate limiter for API requests
+ * Options for fetching issues with timer data
  */
-class RateLimiter {
-  private requests: number[] = [];
-
-  constructor(private config: RateLimitConfig) {}
+interface IssuesWithTimersOptions {
+  projectId?: string;
+  userId?: string;
+  limit?: number; // Safety cap for the whole result
+  offset?: number;
+  customQuery?: string;
+  filter?: FilterConfig; // Projects, time range and custom query are compiled into the search
+  pagination?: PaginationOptions;
+  priority?: RequestPriority; // Background refreshes yield to interactive requests
+}
 
-  canMakeRequest(): boolean {
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.config.windowMs);
+/**
+ * Per-page request options for paginated fetches
+ */
+interface PageRequestOptions extends Pick<APIRequestOptions, 'priority' | 'signal'> {
+  useCache?: boolean; // Incremental syncs must always reach the server
+}
 
-    if (this.requests.length >= this.config.maxRequests) {
-      return false;
-    }
+/**
+ * Options for syncing issues with timer data
+ */
+interface TimerSyncOptions extends IssuesWithTimersOptions {
+  full?: boolean; // Skip the incremental path and re-download everything
+}
 
-    this.requests.push(now);
-    return true;
-  }
+/**
+ * Options for fetching work items
+ */
+interface WorkItemsOptions {
+  start?: number; // timestamp
+  end?: number;   // timestamp
+  limit?: number; // Safety cap for the whole result
+  offset?: number;
+  authorLogin?: string;
+  query?: string; // Issue search query restricting the work items
+  pagination?: PaginationOptions;
+}
 
-  getNextAvailableTime(): number {
-    if (this.requests.length < this.config.maxRequests) {
-      return 0;
-    }
+/**
+ * Options for reading timer events
+ */
+interface TimerLogsOptions {
+  from?: number; // timestamp, defaults to 7 days before `to`
+  to?: number;   // timestamp, defaults to now
+  limit?: number; // Safety cap per source request
+  pagination?: PaginationOptions;
+}
 
-    const oldestRequest = Math.min(...this.requests);
-    return oldestRequest + this.config.windowMs - Date.now();
-  }
+/**
+ * Options for the app backend aggregation
+ */
+interface BackendAnalyticsOptions {
+  from: number;
+  to: number;
+  filter?: FilterConfig; // Only the server-side part (projects, time range, custom query) applies to work items
+  priority?: RequestPriority;
 }
 
+// Default timer event window, which also feeds the weekly trends
+const TIMER_LOG_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// =================== FIELD PROJECTIONS ===================
+// Each projection yields the `fields` parameter and the type of what comes back
+
+const TIMER_ISSUE_PROJECTION = projection<YouTrackIssue>()({
+  id: true,
+  summary: true,
+  project: { id: true, shortName: true, name: true, archived: true },
+  numberInProject: true,
+  created: true,
+  updated: true,
+  resolved: true,
+  // Keep customFields minimal; we only need the timer field, the State name and the Estimation period
+  customFields: { name: true, value: { name: true, isResolved: true, minutes: true }, field: { name: true } }
+});
+
+const ISSUE_DETAILS_PROJECTION = projection<YouTrackIssue>()({
+  id: true,
+  idReadable: true,
+  summary: true,
+  description: true,
+  project: { id: true, shortName: true, name: true },
+  numberInProject: true,
+  customFields: { name: true, value: true, field: { name: true, fieldType: true } },
+  assignees: { id: true, login: true, fullName: true, avatarUrl: true },
+  reporter: { login: true, fullName: true },
+  created: true,
+  updated: true,
+  resolved: true,
+  tags: { name: true, color: true },
+  attachments: { name: true, size: true, url: true },
+  links: { direction: true, linkType: { name: true }, issues: { id: true, summary: true } },
+  watchers: { login: true, fullName: true },
+  votes: true
+});
+
+const PROJECT_PROJECTION = projection<YouTrackProject>()({
+  id: true,
+  name: true,
+  shortName: true,
+  description: true,
+  archived: true,
+  leader: { login: true, fullName: true }
+});
+
+const USER_PROJECTION = projection<YouTrackUser>()({
+  id: true,
+  login: true,
+  fullName: true,
+  email: true,
+  avatarUrl: true,
+  banned: true,
+  online: true,
+  guest: true,
+  tags: { id: true, name: true }
+});
+
+const WORK_ITEM_PROJECTION = projection<YouTrackWorkItem>()({
+  id: true,
+  created: true,
+  duration: { minutes: true, presentation: true },
+  author: { login: true, name: true },
+  date: true,
+  type: { name: true },
+  issue: { id: true, summary: true, project: { shortName: true } }
+});
+
+const WORK_ITEM_TYPE_PROJECTION = projection<YouTrackWorkItemType>()({ id: true, name: true });
+
+const WORK_TIME_SETTINGS_PROJECTION = projection<YouTrackTimeTrackingProfile['workTimeSettings']>()({
+  daysAWeek: true,
+  hoursADay: true,
+  workDays: { id: true, presentation: true }
+});
+
+const TIME_TRACKING_PROFILE_PROJECTION = projection<YouTrackTimeTrackingProfile>()({
+  workDays: { id: true, presentation: true },
+  workTimeSettings: WORK_TIME_SETTINGS_PROJECTION.spec
+});
+
+const APPEARANCE_PROFILE_PROJECTION = projection<YouTrackAppearanceProfile>()({
+  timezone: { id: true, presentation: true, offset: true },
+  locale: { id: true, language: true, locale: true }
+});
+
+export type TimerIssue = ProjectionResult<typeof TIMER_ISSUE_PROJECTION>;
+export type IssueDetails = ProjectionResult<typeof ISSUE_DETAILS_PROJECTION>;
+export type ProjectSummary = ProjectionResult<typeof PROJECT_PROJECTION>;
+export type UserSummary = ProjectionResult<typeof USER_PROJECTION>;
+export type WorkItem = ProjectionResult<typeof WORK_ITEM_PROJECTION>;
+
 /**
  * Advanced YouTrack API client with comprehensive features
  */
 export class YouTrackAPI {
   private logger = Logger.getLogger('YouTrackAPI');
-  private rateLimiter: RateLimiter;
-  private debouncedFetch: any;
+  private rateLimiter: TokenBucketRateLimiter;
+  private timerSync: TimerSyncState;
+  private transport: Transport;
+  private hubTransport: Transport | null;
+  private backendTransport: Transport;
+  private timerEventSources: TimerEventSource[];
 
   constructor(
     private host?: any,
@@ -72,104 +235,226 @@ export class YouTrackAPI {
       cache: {
         enabled: true,
         defaultTtl: 30000
-      }
+      },
+      pagination: DEFAULT_PAGINATION,
+      sync: DEFAULT_TIMER_SYNC
     }
   ) {
-    this.rateLimiter = new RateLimiter(this.config.rateLimit!);
+    this.rateLimiter = new TokenBucketRateLimiter(this.config.rateLimit!);
+    this.timerSync = new TimerSyncState(this.config.sync || DEFAULT_TIMER_SYNC);
+    this.transport = this.createTransport();
+    this.hubTransport = this.host?.fetchHub ? new HubTransport(this.host) : null;
+    this.backendTransport = new AppBackendTransport(this.host);
+    // Field history gives exact times; comments add work types and cancel reasons
+    this.timerEventSources = this.config.timerEvents || [new ActivityTimerEventSource(), new CommentTimerEventSource()];
+  }
+
+  /**
+   * Explicit transport from the config, else the widget host, else token-based REST (development/testing)
+   */
+  private createTransport(): Transport {
+    if (this.config.transport) {
+      return this.config.transport;
+    }
+
+    if (this.host?.fetchYouTrack) {
+      return new HostTransport(this.host);
+    }
 
-    // Debounce fetch requests to prevent spam
-    this.debouncedFetch = debounce(500, this.rawFetch.bind(this));
+    return new RestTransport({ baseUrl: this.config.baseUrl || '/api', token: this.config.token });
   }
 
   /**
-   * Fetch issues with timer data using advanced filtering and pagination
+   * Fetch issues with timer data using advanced filtering, walking every page
+   * `limit` acts as the safety cap for the whole result
    */
-  async fetchIssuesWithTimers(options: {
-    projectId?: string;
-    userId?: string;
-    limit?: number;
-    offset?: number;
-    fields?: string[];
-    customQuery?: string;
-  } = {}): Promise<IssueWithTimer[]> {
+  async fetchIssuesWithTimers(options: IssuesWithTimersOptions = {}): Promise<IssueWithTimer[]> {
+    const issues: IssueWithTimer[] = [];
+
+    for await (const page of this.iterateIssuesWithTimers(options)) {
+      issues.push(...page);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Stream issues with timer data page by page, so callers can process pages as they arrive
+   */
+  async *iterateIssuesWithTimers(options: IssuesWithTimersOptions = {}): AsyncGenerator<IssueWithTimer[], void, undefined> {
     const requestId = RequestIdGenerator.generate();
+    const query = compileQuery(q.and(q.has('Timer Hash Data'), this.buildIssueScopeQuery(options)));
+    const fields = TIMER_ISSUE_PROJECTION.fields;
+
+    this.logger.info('Fetching issues with timers', {
+      query,
+      fields: fields.split(',').length,
+      limit: options.limit,
+      offset: options.offset,
+      requestId
+    });
 
-    // Build optimized query
-    let query = 'has: {Timer Hash Data}';
+    const pages = paginate<TimerIssue>(
+      (skip, top) => this.fetchIssuesPage(query, fields, (options.offset || 0) + skip, top, requestId, {
+        priority: options.priority,
+        signal: options.pagination?.signal
+      }),
+      this.resolvePagination(options)
+    );
 
-    if (options.projectId) {
-      query += ` project: ${options.projectId}`;
+    for await (const page of pages) {
+      yield this.processIssuesWithTimers(page);
     }
+  }
+
+  /**
+   * Sync the local snapshot of issues with timers
+   * After a full download only issues updated since the previous sync started are queried;
+   * a full reconcile runs periodically (and whenever the scope changes) to catch issues that left the query
+   */
+  async syncIssuesWithTimers(options: TimerSyncOptions = {}): Promise<TimerSyncResult> {
+    const scopeQuery = this.buildIssueScopeQuery(options);
+    const fields = TIMER_ISSUE_PROJECTION.fields;
+    // Keyed by the filter settings, not the compiled query: relative time ranges move with the clock
+    const { projects, timeRange, customQuery } = options.filter || {};
+    const scope = JSON.stringify([options.projectId, options.userId, options.customQuery, projects, timeRange, customQuery, fields, options.offset || 0]);
+    const now = Date.now();
 
-    if (options.userId) {
-      query += ` Assignee: ${options.userId}`;
+    if (options.full || this.timerSync.needsFullSync(scope, now)) {
+      const issues = await this.fetchIssuesWithTimers(options);
+      this.timerSync.replace(scope, issues, now);
+
+      this.logger.info('Full timer sync completed', { issues: issues.length, watermark: this.timerSync.getWatermark() });
+
+      return {
+        issues,
+        mode: 'full',
+        changed: issues.length,
+        removed: 0,
+        watermark: this.timerSync.getWatermark(),
+        syncedAt: now
+      };
     }
 
-    if (options.customQuery) {
-      query += ` ${options.customQuery}`;
+    // No `has: {Timer Hash Data}` here: issues whose timer was cleared must come back so they can be removed
+    const requestId = RequestIdGenerator.generate();
+    const { timeZone } = trendCalendarFromProfile(await this.fetchAppearanceProfile());
+    const query = buildUpdatedSinceQuery(
+      scopeQuery,
+      this.timerSync.getWatermark(),
+      (this.config.sync || DEFAULT_TIMER_SYNC).overlapMs,
+      timeZone
+    );
+    const changedIssues: TimerIssue[] = [];
+
+    const pages = paginate<TimerIssue>(
+      // Never served from cache: the same watermark must see updates made since the last sync
+      (skip, top) => this.fetchIssuesPage(query, fields, skip, top, requestId, {
+        useCache: false,
+        priority: options.priority,
+        signal: options.pagination?.signal
+      }),
+      this.resolvePagination(options)
+    );
+
+    for await (const page of pages) {
+      changedIssues.push(...page);
     }
 
-    // Optimize fields for better performance (request only what is used)
-    // Note: Requesting all custom fields can be very heavy. While YouTrack
-    // fields filtering for a specific custom field name is limited, we still
-    // minimize other fields drastically to cut payload size.
-    const defaultFields = [
-      'id',
-      'summary',
-      'project(shortName,name)',
-      'numberInProject',
-      'updated',
-      // Keep customFields minimal; we only need to locate and parse the timer field
-      'customFields(name,value,field(name))'
-    ];
-
-    const fields = options.fields || defaultFields;
-
-    // Pagination parameters
-    const queryParams = new URLSearchParams({
-      query,
-      fields: fields.join(','),
-      $top: (options.limit || 100).toString(),
-      $skip: (options.offset || 0).toString()
-    });
+    const withTimers = this.processIssuesWithTimers(changedIssues);
+    const { upserted, removed } = this.timerSync.merge(changedIssues, withTimers, now);
 
-    const cacheKey = CacheKeyGenerator.apiKey('issues_with_timers', {
+    this.logger.info('Incremental timer sync completed', {
       query,
-      fields: fields.join(','),
-      limit: options.limit,
-      offset: options.offset
+      updated: changedIssues.length,
+      upserted,
+      removed,
+      requestId
     });
 
-    this.logger.info('Fetching issues with timers', {
+    return {
+      issues: this.timerSync.getIssues(),
+      mode: 'incremental',
+      changed: upserted,
+      removed,
+      watermark: this.timerSync.getWatermark(),
+      syncedAt: now
+    };
+  }
+
+  /**
+   * Forget the local timer snapshot so the next sync downloads everything
+   */
+  resetTimerSync(): void {
+    this.timerSync.reset();
+  }
+
+  /**
+   * Project, assignee, filter and custom query terms shared by full and incremental timer queries
+   */
+  private buildIssueScopeQuery(options: IssuesWithTimersOptions): QueryNode {
+    return q.and(
+      options.projectId ? q.field('project', options.projectId) : null,
+      options.userId ? q.field('Assignee', options.userId) : null,
+      options.filter ? filterConfigToQuery(options.filter) : null,
+      options.customQuery ? q.raw(options.customQuery) : null
+    );
+  }
+
+  /**
+   * Fetch a single page of raw issues (cached per page)
+   */
+  private async fetchIssuesPage(
+    query: string,
+    fields: string,
+    skip: number,
+    top: number,
+    requestId: string,
+    { useCache = true, ...requestOptions }: PageRequestOptions = {}
+  ): Promise<TimerIssue[]> {
+    const queryParams = new URLSearchParams({
       query,
-      fields: fields.length,
-      limit: options.limit,
-      offset: options.offset,
-      requestId
+      fields,
+      $top: top.toString(),
+      $skip: skip.toString()
     });
 
+    const cacheKey = CacheKeyGenerator.apiKey('issues_with_timers', { query, fields, skip, top });
+
     // Try cache first if enabled
-    if (this.config.cache?.enabled) {
-      const cached = await globalCache.get<YouTrackIssue[]>(cacheKey);
+    if (useCache && this.config.cache?.enabled) {
+      const cached = await globalCache.get<TimerIssue[]>(cacheKey);
       if (cached) {
-        this.logger.info('Using cached issues data', { count: cached.length, requestId });
-        return this.processIssuesWithTimers(cached);
+        this.logger.info('Using cached issues page', { count: cached.length, skip, requestId });
+        return cached;
       }
     }
 
     // Make API request
-    const response = await this.makeRequest<YouTrackIssue[]>(
+    const response = await this.makeRequest<TimerIssue[]>(
       `issues?${queryParams.toString()}`,
-      { cache: false },
+      { cache: false, ...requestOptions },
       requestId
     );
 
     // Cache the response
-    if (this.config.cache?.enabled) {
+    if (useCache && this.config.cache?.enabled) {
       await globalCache.set(cacheKey, response.data, this.config.cache.defaultTtl);
     }
 
-    return this.processIssuesWithTimers(response.data);
+    return response.data;
+  }
+
+  /**
+   * Merge client pagination defaults with per-call options (`limit` is the safety cap)
+   */
+  private resolvePagination(options: { limit?: number; pagination?: PaginationOptions }): PaginationOptions {
+    return {
+      ...DEFAULT_PAGINATION,
+      ...this.config.pagination,
+      ...(options.limit ? { maxItems: options.limit } : {}),
+      ...options.pagination
+    };
   }
 
   /**
@@ -177,39 +462,19 @@ export class YouTrackAPI {
    */
   
   
-  async fetchIssue(issueId: string, fields?: string[]): Promise<YouTrackIssue | null> {
+  async fetchIssue(issueId: string): Promise<IssueDetails | null> {
     const requestId = RequestIdGenerator.generate();
 
-    const defaultFields = [
-      'id',
-      'summary',
-      'description',
-      'project(id,shortName,name)',
-      'numberInProject',
-      'customFields(name,value,field(name,fieldType))',
-      'assignees(login,fullName,id,avatarUrl)',
-      'reporter(login,fullName)',
-      'created',
-      'updated',
-      'resolved',
-      'tags(name,color)',
-      'priority(name,color)',
-      'state(name,color)',
-      'attachments(name,size,url)',
-      'links(direction,linkType(name),issues(id,summary))',
-      'watchers(login,fullName)',
-      'votes'
-    ];
-
+    // Priority and State are custom fields, read them from customFields
     const queryParams = new URLSearchParams({
-      fields: (fields || defaultFields).join(',')
+      fields: ISSUE_DETAILS_PROJECTION.fields
     });
 
-    const cacheKey = CacheKeyGenerator.apiKey(`issue_${issueId}`, { fields: (fields || defaultFields).join(',') });
+    const cacheKey = CacheKeyGenerator.apiKey(`issue_${issueId}`, { fields: ISSUE_DETAILS_PROJECTION.fields });
 
     // Try cache first
     if (this.config.cache?.enabled) {
-      const cached = await globalCache.get<YouTrackIssue>(cacheKey);
+      const cached = await globalCache.get<IssueDetails>(cacheKey);
       if (cached) {
         this.logger.info('Using cached issue data', { issueId, requestId });
         return cached;
@@ -217,7 +482,7 @@ export class YouTrackAPI {
     }
 
     try {
-      const response = await this.makeRequest<YouTrackIssue>(
+      const response = await this.makeRequest<IssueDetails>(
         `issues/${issueId}?${queryParams.toString()}`,
         { cache: false },
         requestId
@@ -247,11 +512,11 @@ export class YouTrackAPI {
     limit?: number;
     offset?: number;
     query?: string;
-  } = {}): Promise<YouTrackProject[]> {
+  } = {}): Promise<ProjectSummary[]> {
     const requestId = RequestIdGenerator.generate();
 
     const queryParams = new URLSearchParams({
-      fields: 'id,name,shortName,description,archived,leader(login,fullName)',
+      fields: PROJECT_PROJECTION.fields,
       $top: (options.limit || 50).toString(),
       $skip: (options.offset || 0).toString()
     });
@@ -268,14 +533,14 @@ export class YouTrackAPI {
 
     // Try cache first
     if (this.config.cache?.enabled) {
-      const cached = await globalCache.get<YouTrackProject[]>(cacheKey);
+      const cached = await globalCache.get<ProjectSummary[]>(cacheKey);
       if (cached) {
         this.logger.info('Using cached projects data', { count: cached.length, requestId });
         return cached;
       }
     }
 
-    const response = await this.makeRequest<YouTrackProject[]>(
+    const response = await this.makeRequest<ProjectSummary[]>(
       `admin/projects?${queryParams.toString()}`,
       { cache: false },
       requestId
@@ -299,11 +564,11 @@ export class YouTrackAPI {
     banned?: boolean;
     limit?: number;
     offset?: number;
-  } = {}): Promise<YouTrackUser[]> {
+  } = {}): Promise<UserSummary[]> {
     const requestId = RequestIdGenerator.generate();
 
     const queryParams = new URLSearchParams({
-      fields: 'id,login,fullName,email,avatarUrl,banned,online,guest,tags(name)',
+      fields: USER_PROJECTION.fields,
       $top: (options.limit || 50).toString(),
       $skip: (options.offset || 0).toString()
     });
@@ -320,14 +585,14 @@ export class YouTrackAPI {
 
     // Try cache first
     if (this.config.cache?.enabled) {
-      const cached = await globalCache.get<YouTrackUser[]>(cacheKey);
+      const cached = await globalCache.get<UserSummary[]>(cacheKey);
       if (cached) {
         this.logger.info('Using cached users data', { count: cached.length, requestId });
         return cached;
       }
     }
 
-    const response = await this.makeRequest<YouTrackUser[]>(
+    const response = await this.makeRequest<UserSummary[]>(
       `users?${queryParams.toString()}`,
       { cache: false },
       requestId
@@ -342,49 +607,213 @@ export class YouTrackAPI {
   }
 
   /**
-   * Fetch work items for historical timer data
+   * Fetch one user by account id (ids survive login renames)
    */
-  async fetchWorkItems(options: {
-    start?: number; // timestamp
-    end?: number;   // timestamp
+  async fetchUser(userId: string): Promise<UserSummary | null> {
+    const requestId = RequestIdGenerator.generate();
+
+    const queryParams = new URLSearchParams({
+      fields: USER_PROJECTION.fields
+    });
+
+    const cacheKey = CacheKeyGenerator.apiKey(`user_${userId}`, { fields: USER_PROJECTION.fields });
+
+    // Try cache first
+    if (this.config.cache?.enabled) {
+      const cached = await globalCache.get<UserSummary>(cacheKey);
+      if (cached) {
+        this.logger.info('Using cached user data', { userId, requestId });
+        return cached;
+      }
+    }
+
+    try {
+      const response = await this.makeRequest<UserSummary>(
+        `users/${encodeURIComponent(userId)}?${queryParams.toString()}`,
+        { cache: false },
+        requestId
+      );
+
+      // Cache the response with longer TTL for user data
+      if (this.config.cache?.enabled) {
+        await globalCache.set(cacheKey, response.data, this.config.cache.defaultTtl * 2);
+      }
+
+      return response.data;
+    } catch (error: any) {
+      if (error.code === 'NOT_FOUND') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch every user page by page (each page cached like fetchUsers); `limit` is the safety cap
+   */
+  async fetchAllUsers(options: {
+    query?: string;
+    banned?: boolean;
     limit?: number;
-    offset?: number;
-    authorLogin?: string;
-  } = {}): Promise<any[]> {
+    pagination?: PaginationOptions;
+  } = {}): Promise<UserSummary[]> {
+    const { query, banned } = options;
+
+    return collectPages<UserSummary>(
+      (skip, top) => this.fetchUsers({ query, banned, limit: top, offset: skip }),
+      this.resolvePagination(options)
+    );
+  }
+
+  /**
+   * Fetch group membership per login from Hub (YouTrack users carry no groups)
+   * Returns an empty map outside a host with Hub access
+   */
+  async fetchUserGroups(logins: string[]): Promise<Record<string, string[]>> {
+    const groupsByLogin: Record<string, string[]> = {};
+
+    if (!this.hubTransport) {
+      this.logger.debug('Hub not available, skipping user groups');
+      return groupsByLogin;
+    }
+
+    const uniqueLogins = Array.from(new Set(logins));
+
+    // Keep each query short enough for the URL
+    for (let i = 0; i < uniqueLogins.length; i += 40) {
+      const chunk = uniqueLogins.slice(i, i + 40);
+      const requestId = RequestIdGenerator.generate();
+      const queryParams = new URLSearchParams({
+        query: compileQuery(q.or(...chunk.map(login => q.field('login', login)))),
+        fields: 'login,groups(name)',
+        $top: chunk.length.toString()
+      });
+
+      const response = await this.makeRequest<{ users?: Array<{ login: string; groups?: Array<{ name: string }> }> }>(
+        `api/rest/users?${queryParams.toString()}`,
+        { cache: false },
+        requestId,
+        this.hubTransport
+      );
+
+      (response.data.users || []).forEach(user => {
+        groupsByLogin[user.login] = (user.groups || []).map(group => group.name);
+      });
+    }
+
+    return groupsByLogin;
+  }
+
+  /**
+   * Work item rollups aggregated by the app backend (backend.js), so the widget does not download the work items
+   * Resolves to null when the backend is missing (no `fetchApp`, or an app without the handler),
+   * so callers can compute the same data client-side
+   */
+  async fetchBackendAnalytics(options: BackendAnalyticsOptions): Promise<BackendAnalytics | null> {
     const requestId = RequestIdGenerator.generate();
+    const { projects, timeRange, customQuery } = options.filter || {};
 
     const queryParams = new URLSearchParams({
-      fields: 'id,created,duration(minutes,presentation),author(login,name),date,type(name),issue(id,summary,project(shortName))',
-      $top: (options.limit || 1000).toString(),
-      $skip: (options.offset || 0).toString()
+      from: options.from.toString(),
+      to: options.to.toString(),
+      query: compileQuery(filterConfigToQuery({ projects, timeRange, customQuery }, options.to))
+    });
+
+    try {
+      const response = await this.makeRequest<BackendAnalytics>(
+        `analytics?${queryParams.toString()}`,
+        { cache: false, priority: options.priority },
+        requestId,
+        this.backendTransport
+      );
+
+      return response.data;
+    } catch (error: any) {
+      if (error?.code === 'BACKEND_UNAVAILABLE' || error?.code === 'NOT_FOUND') {
+        this.logger.info('App backend not available, aggregating client-side', { code: error.code, requestId });
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch work items for historical timer data, walking every page
+   * `limit` acts as the safety cap for the whole result
+   */
+  async fetchWorkItems(options: WorkItemsOptions = {}): Promise<WorkItem[]> {
+    const workItems: WorkItem[] = [];
+
+    for await (const page of this.iterateWorkItems(options)) {
+      workItems.push(...page);
+    }
+
+    return workItems;
+  }
+
+  /**
+   * Stream work items page by page
+   */
+  async *iterateWorkItems(options: WorkItemsOptions = {}): AsyncGenerator<WorkItem[], void, undefined> {
+    const requestId = RequestIdGenerator.generate();
+
+    const baseParams = new URLSearchParams({
+      fields: WORK_ITEM_PROJECTION.fields
     });
 
     if (options.start) {
-      queryParams.append('start', options.start.toString());
+      baseParams.append('start', options.start.toString());
     }
 
     if (options.end) {
-      queryParams.append('end', options.end.toString());
+      baseParams.append('end', options.end.toString());
     }
 
     if (options.authorLogin) {
-      queryParams.append('author', options.authorLogin);
+      baseParams.append('author', options.authorLogin);
     }
 
-    const cacheKey = CacheKeyGenerator.apiKey('work_items', options);
+    if (options.query) {
+      baseParams.append('query', options.query);
+    }
+
+    yield* paginate<WorkItem>(
+      (skip, top) => this.fetchWorkItemsPage(baseParams, (options.offset || 0) + skip, top, requestId, {
+        signal: options.pagination?.signal
+      }),
+      this.resolvePagination(options)
+    );
+  }
+
+  /**
+   * Fetch a single page of work items (cached per page)
+   */
+  private async fetchWorkItemsPage(
+    baseParams: URLSearchParams,
+    skip: number,
+    top: number,
+    requestId: string,
+    requestOptions: PageRequestOptions = {}
+  ): Promise<WorkItem[]> {
+    const queryParams = new URLSearchParams(baseParams);
+    queryParams.set('$top', top.toString());
+    queryParams.set('$skip', skip.toString());
+
+    const cacheKey = CacheKeyGenerator.apiKey('work_items', { params: queryParams.toString() });
 
     // Try cache first
     if (this.config.cache?.enabled) {
-      const cached = await globalCache.get<any[]>(cacheKey);
+      const cached = await globalCache.get<WorkItem[]>(cacheKey);
       if (cached) {
-        this.logger.info('Using cached work items data', { count: cached.length, requestId });
+        this.logger.info('Using cached work items page', { count: cached.length, skip, requestId });
         return cached;
       }
     }
 
-    const response = await this.makeRequest<any[]>(
+    const response = await this.makeRequest<WorkItem[]>(
       `workItems?${queryParams.toString()}`,
-      { cache: false },
+      { cache: false, ...requestOptions },
       requestId
     );
 
@@ -396,25 +825,48 @@ export class YouTrackAPI {
     return response.data;
   }
 
+  /**
+   * Fetch logged time (all-time) for the given issues, keyed by issue id
+   */
+  async fetchSpentTimeByIssue(issueKeys: string[]): Promise<Record<string, number>> {
+    const uniqueKeys = Array.from(new Set(issueKeys));
+    const spent: Record<string, number> = {};
+
+    // Keep each query short enough for the URL
+    for (let i = 0; i < uniqueKeys.length; i += 40) {
+      const chunk = uniqueKeys.slice(i, i + 40);
+      const workItems = await this.fetchWorkItems({
+        query: compileQuery(q.field('issue id', ...chunk)),
+        limit: 5000
+      });
+
+      Object.entries(aggregateSpentTime(workItems)).forEach(([issueId, ms]) => {
+        spent[issueId] = (spent[issueId] || 0) + ms;
+      });
+    }
+
+    return spent;
+  }
+
   /**
    * Fetch available work item types
    */
-  async fetchWorkItemTypes(): Promise<{id: string, name: string}[]> {
+  async fetchWorkItemTypes(): Promise<WorkItemTypeRef[]> {
     const requestId = RequestIdGenerator.generate();
 
     const cacheKey = CacheKeyGenerator.apiKey('work_item_types', {});
 
     // Try cache first
     if (this.config.cache?.enabled) {
-      const cached = await globalCache.get<{id: string, name: string}[]>(cacheKey);
+      const cached = await globalCache.get<WorkItemTypeRef[]>(cacheKey);
       if (cached) {
         this.logger.info('Using cached work item types data', { count: cached.length, requestId });
         return cached;
       }
     }
 
-    const response = await this.makeRequest<{id: string, name: string}[]>(
-      'admin/timeTrackingSettings/workItemTypes?fields=id,name',
+    const response = await this.makeRequest<WorkItemTypeRef[]>(
+      `admin/timeTrackingSettings/workItemTypes?fields=${WORK_ITEM_TYPE_PROJECTION.fields}`,
       { cache: false },
       requestId
     );
@@ -428,130 +880,161 @@ export class YouTrackAPI {
   }
 
   /**
-   * Fetch recent timer comments (created when timers are started/stopped)
+   * Fetch the current user's time tracking profile (work days and hours a day)
+   * Falls back to the global work time settings when the profile has none
    */
-  async fetchTimerLogs(): Promise<any[]> {
+  async fetchTimeTrackingProfile(): Promise<YouTrackTimeTrackingProfile | null> {
     const requestId = RequestIdGenerator.generate();
-    const now = new Date();
-    const lastWeek = new Date(now.getTime() - (7 * 24 * 60 * 60 * 1000)); // Last 7 days for historical trends
 
-    // Format dates for YouTrack API (YYYY-MM-DD format)
-    const formatDate = (date: Date) => date.toISOString().split('T')[0];
-    const nowFormatted = formatDate(now);
-    const lastWeekFormatted = formatDate(lastWeek);
+    const cacheKey = CacheKeyGenerator.apiKey('timetracking_profile', {});
+
+    // Try cache first
+    if (this.config.cache?.enabled) {
+      const cached = await globalCache.get<YouTrackTimeTrackingProfile>(cacheKey);
+      if (cached) {
+        this.logger.info('Using cached time tracking profile', { requestId });
+        return cached;
+      }
+    }
 
     try {
-      // First, get issues that might have timer comments
-      const issuesQueryParams = new URLSearchParams({
-        fields: 'id,idReadable,summary,project(shortName),comments(id,created,text,author(login,fullName))',
-        $top: '200',
-        query: `updated: ${lastWeekFormatted} .. today`, // Issues updated in last 7 days
-        _t: now.getTime().toString() // Add timestamp to bypass any caching
+      const response = await this.makeRequest<YouTrackTimeTrackingProfile>(
+        `users/me/profiles/timetracking?fields=${TIME_TRACKING_PROFILE_PROJECTION.fields}`,
+        { cache: false },
+        requestId
+      );
+
+      let profile = response.data;
+
+      if (!profile.workTimeSettings) {
+        const settings = await this.makeRequest<YouTrackTimeTrackingProfile['workTimeSettings']>(
+          `admin/timeTrackingSettings/workTimeSettings?fields=${WORK_TIME_SETTINGS_PROJECTION.fields}`,
+          { cache: false },
+          requestId
+        );
+        profile = { ...profile, workTimeSettings: settings.data };
+      }
+
+      // Cache for longer since this doesn't change often
+      if (this.config.cache?.enabled) {
+        await globalCache.set(cacheKey, profile, this.config.cache.defaultTtl * 10);
+      }
+
+      return profile;
+    } catch (error) {
+      this.logger.warn('Failed to fetch time tracking profile, using default calendar', {
+        error: (error as Error).message,
+        requestId
       });
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the current user's appearance profile (time zone trends are bucketed in)
+   */
+  async fetchAppearanceProfile(): Promise<YouTrackAppearanceProfile | null> {
+    const requestId = RequestIdGenerator.generate();
+
+    const cacheKey = CacheKeyGenerator.apiKey('appearance_profile', {});
 
-      const response = await this.makeRequest<any[]>(
-        `issues?${issuesQueryParams.toString()}`,
-        { cache: false }, // Always fresh data for timer logs
+    // Try cache first
+    if (this.config.cache?.enabled) {
+      const cached = await globalCache.get<YouTrackAppearanceProfile>(cacheKey);
+      if (cached) {
+        this.logger.info('Using cached appearance profile', { requestId });
+        return cached;
+      }
+    }
+
+    try {
+      const response = await this.makeRequest<YouTrackAppearanceProfile>(
+        `users/me/profiles/appearance?fields=${APPEARANCE_PROFILE_PROJECTION.fields}`,
+        { cache: false },
         requestId
       );
 
-      // Extract timer-related comments
-      const timerLogs: any[] = [];
-      const lastWeekTimestamp = lastWeek.getTime();
-
-      for (const issue of response.data) {
-        if (!issue.comments) continue;
-
-        for (const comment of issue.comments) {
-          const commentTime = new Date(comment.created).getTime();
-
-          // Only consider comments from last 7 days
-          if (commentTime < lastWeekTimestamp) continue;
-
-          const commentText = comment.text || '';
-
-          // Check if comment contains any timer-related patterns
-          const isTimerComment = commentText.includes('TIMER INICIADO') ||
-                                commentText.includes('TIMER PARADO') ||
-                                commentText.includes('TIMER CANCELADO') ||
-                                commentText.includes('TIMER BLOQUEADO') ||
-                                commentText.includes('TIMER JÁ ATIVO');
-
-          if (isTimerComment) {
-            let timerAction = 'unknown';
-            let workType = 'N/A';
-            let duration = '';
-            let reason = '';
-
-            // Detect specific timer actions
-            if (commentText.includes('TIMER INICIADO')) {
-              timerAction = 'timer_started';
-            } else if (commentText.includes('TIMER PARADO')) {
-              timerAction = 'timer_stopped';
-
-              // Extract work type from comment (various emoji patterns)
-              const workTypeMatch = commentText.match(/(?:[💻🔧👥📋🔍🧪📝📚👀⚙️🛠️]\s*)?(?:\*\*)?Tipo de trabalho:\s*(.+?)(?:\*\*)?(?:\n|$)/);
-              if (workTypeMatch) {
-                workType = workTypeMatch[1].trim().replace(/\*\*/g, '');
-              }
-
-              // Extract duration from comment
-              const durationMatch = commentText.match(/⏱️\s*(?:\*\*)?Tempo trabalhado:\s*(.+?)(?:\*\*)?(?:\n|$)/);
-              if (durationMatch) {
-                duration = durationMatch[1].trim().replace(/\*\*/g, '');
-              }
-            } else if (commentText.includes('TIMER CANCELADO AUTOMATICAMENTE')) {
-              timerAction = 'timer_auto_canceled';
-              reason = '8+ horas consecutivas';
-            } else if (commentText.includes('TIMER CANCELADO')) {
-              timerAction = 'timer_canceled';
-              reason = 'Cancelado pelo usuário';
-            } else if (commentText.includes('TIMER BLOQUEADO')) {
-              timerAction = 'timer_blocked';
-              reason = 'Timer já ativo em outra issue';
-            } else if (commentText.includes('TIMER JÁ ATIVO')) {
-              timerAction = 'timer_duplicate';
-              reason = 'Timer já ativo nesta issue';
-            }
-
-            timerLogs.push({
-              id: `${issue.id}-${comment.id}`,
-              created: comment.created,
-              author: comment.author,
-              issueId: issue.id,
-              issueKey: issue.idReadable,
-              issueSummary: issue.summary,
-              projectShortName: issue.project?.shortName || 'UNK',
-              type: timerAction,
-              workType: workType,
-              duration: duration,
-              reason: reason
-            });
-          }
-        }
+      // Cache for longer since this doesn't change often
+      if (this.config.cache?.enabled) {
+        await globalCache.set(cacheKey, response.data, this.config.cache.defaultTtl * 10);
       }
 
-      // Sort by creation date (newest first)
-      timerLogs.sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+      return response.data;
+    } catch (error) {
+      this.logger.warn('Failed to fetch appearance profile, using the browser time zone', {
+        error: (error as Error).message,
+        requestId
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Fetch timer events in a date range (last 7 days by default) from every configured source, newest first
+   * Issues and activities are read page by page; a failing source is logged and skipped so the others still reach the widget
+   */
+  async fetchTimerLogs(options: TimerLogsOptions = {}): Promise<TimerEvent[]> {
+    const requestId = RequestIdGenerator.generate();
+    const until = options.to ?? Date.now();
+    const range: TimerEventRange = { since: options.from ?? until - TIMER_LOG_WINDOW_MS, until };
+
+    if (range.since > range.until) {
+      throw createError.validation('Timer log range starts after it ends', 'INVALID_DATE_RANGE', { range });
+    }
+
+    const pagination = this.resolvePagination(options);
+    const fetchAll = <T>(endpoint: string, params: URLSearchParams) => collectPages<T>(async (skip, top) => {
+      const pageParams = new URLSearchParams(params);
+      pageParams.set('$skip', skip.toString());
+      pageParams.set('$top', top.toString());
+
+      const response = await this.makeRequest<T[]>(
+        `${endpoint}?${pageParams.toString()}`,
+        { cache: false, signal: pagination.signal }, // Always fresh data for timer logs
+        requestId
+      );
+      return response.data || [];
+    }, pagination);
+
+    const context: TimerEventContext = {
+      fetchIssues: <T>(query: string, fields: string) => fetchAll<T>('issues', new URLSearchParams({ query, fields })),
+      fetchActivities: <T>({ categories, fields, issueQuery, range: activityRange }: TimerActivityRequest) => {
+        const params = new URLSearchParams({
+          categories,
+          fields,
+          start: String(activityRange.since),
+          end: String(activityRange.until)
+        });
+        if (issueQuery) params.set('issueQuery', issueQuery);
+
+        return fetchAll<T>('activities', params);
+      }
+    };
 
-      // Only log if there are new logs or errors
-      if (timerLogs.length > 0) {
-        this.logger.info(`Timer logs: ${timerLogs.length} actions found`);
+    const batches = await Promise.all(this.timerEventSources.map(async source => {
+      try {
+        return await source.fetchEvents(range, context);
+      } catch (error) {
+        this.logger.error(`Failed to fetch timer events from ${source.name}`, error);
+        return [];
       }
+    }));
+    const events = mergeTimerEvents(batches);
 
-      return timerLogs;
-    } catch (error) {
-      this.logger.error('Failed to fetch timer logs', error);
-      return [];
+    // Only log if there are new logs or errors
+    if (events.length > 0) {
+      this.logger.info(`Timer logs: ${events.length} actions found`);
     }
+
+    return events;
   }
 
   /**
    * Process raw issues data into timer entries
    */
-  private processIssuesWithTimers(issues: YouTrackIssue[]): IssueWithTimer[] {
+  private processIssuesWithTimers(issues: TimerIssue[]): IssueWithTimer[] {
     return issues
-      .map((issue: YouTrackIssue): IssueWithTimer | null => {
+      .map((issue): IssueWithTimer | null => {
         const timerField = issue.customFields?.find((field: any) => {
           const fieldName = field.name || field.field?.name || '';
           return fieldName === 'Timer Hash Data' ||
@@ -563,29 +1046,42 @@ export class YouTrackAPI {
           return null;
         }
 
-        let timerHashData = {};
-        try {
-          if (typeof timerField.value === 'string') {
-            timerHashData = JSON.parse(timerField.value);
-          } else if (typeof timerField.value === 'object') {
-            timerHashData = timerField.value;
-          }
-        } catch (e) {
-          this.logger.warn('Failed to parse timer data', { issueId: issue.id, error: (e as Error).message });
-          return null;
+        const stateField = issue.customFields?.find((field: any) => {
+          const fieldName = (field.name || field.field?.name || '').toLowerCase();
+          return fieldName === 'state' || fieldName === 'estado';
+        });
+
+        const estimationField = issue.customFields?.find((field: any) =>
+          isEstimationField(field.name || field.field?.name || '')
+        );
+
+        // Issues with unparseable data are kept so their diagnostics reach the widget
+        const parsed = parseTimerHashData(timerField.value, {
+          issueId: issue.id,
+          issueKey: `${issue.project?.shortName}-${issue.numberInProject}`
+        });
+
+        if (parsed.diagnostics.length > 0) {
+          this.logger.warn('Rejected timer hash data entries', {
+            issueId: issue.id,
+            codes: parsed.diagnostics.map(diagnostic => diagnostic.code)
+          });
         }
 
         return {
           id: issue.id,
           summary: issue.summary,
-          description: issue.description,
           project: issue.project,
           numberInProject: issue.numberInProject,
-          timerHashData,
-          assignees: issue.assignees,
+          timerHashData: parsed.timerHashData,
+          parsedTimers: parsed.timers,
+          timerSchemaVersion: parsed.version,
+          timerDiagnostics: parsed.diagnostics,
           created: issue.created,
           updated: issue.updated,
-          tags: issue.tags || []
+          resolved: issue.resolved || undefined,
+          state: stateField?.value?.name,
+          estimationMs: periodValueToMs(estimationField?.value)
         };
       })
       .filter((issue): issue is IssueWithTimer => issue !== null);
@@ -597,215 +1093,94 @@ export class YouTrackAPI {
   private async makeRequest<T>(
     endpoint: string,
     options: APIRequestOptions = {},
-    requestId?: string
+    requestId?: string,
+    transport: Transport = this.transport
   ): Promise<APIResponse<T>> {
-    // Check rate limiting
-    if (!this.rateLimiter.canMakeRequest()) {
-      const waitTime = this.rateLimiter.getNextAvailableTime();
-      throw createError.api(
-        `Rate limit exceeded. Retry after ${waitTime}ms`,
-        'RATE_LIMIT_EXCEEDED',
-        { waitTime },
-        requestId
-      );
-    }
-
-    // Use widget host context if available
-    if (this.host && this.host.fetchYouTrack) {
-      return this.makeWidgetRequest<T>(endpoint, options, requestId);
+    // Only reads are shared; writes always go out on their own
+    if ((options.method || 'GET') !== 'GET' || options.body !== undefined) {
+      return this.executeRequest<T>(endpoint, options, requestId, transport);
     }
 
-    // Fallback to direct API calls (for testing/development)
-    return this.makeDirectRequest<T>(endpoint, options, requestId);
+    return globalRequestCoalescer.run(
+      this.getRequestKey(endpoint, transport),
+      signal => this.executeRequest<T>(endpoint, { ...options, signal }, requestId, transport),
+      options.signal
+    );
   }
 
   /**
-   * Make request using YouTrack widget host context
+   * Coalescing key: transport, path and the normalized query parameters
    */
-  private async makeWidgetRequest<T>(
-    endpoint: string,
-    options: APIRequestOptions,
-    requestId?: string
-  ): Promise<APIResponse<T>> {
-    const startTime = performance.now();
-
-    try {
-      if (!this.host?.fetchYouTrack) {
-        throw createError.configuration(
-          'YouTrack host context not available',
-          'HOST_CONTEXT_MISSING',
-          { endpoint },
-          requestId
-        );
-      }
-
-      this.logger.debug('Making widget API request', { endpoint, requestId });
-
-      const data = await this.host.fetchYouTrack(endpoint);
-
-      if (!data) {
-        throw createError.api(
-          'No data received from YouTrack API',
-          'EMPTY_RESPONSE',
-          { endpoint },
-          requestId
-        );
-      }
-
-      const duration = performance.now() - startTime;
-
-      return {
-        data,
-        status: 200,
-        statusText: 'OK',
-        headers: {},
-        cached: false,
-        requestId: requestId || RequestIdGenerator.generate(),
-        timestamp: Date.now(),
-        duration
-      };
-
-    } catch (error: any) {
-      const duration = performance.now() - startTime;
-
-      // Transform widget errors to standardized format
-      if (error.message?.includes('unauthorized') || error.message?.includes('403')) {
-        throw createError.permission(
-          'Insufficient permissions for YouTrack API',
-          'PERMISSION_DENIED',
-          { endpoint, duration },
-          requestId
-        );
-      }
-
-      if (error.message?.includes('not found') || error.message?.includes('404')) {
-        throw createError.api(
-          'Resource not found',
-          'NOT_FOUND',
-          { endpoint, duration },
-          requestId
-        );
-      }
-
-      if (error.message?.includes('network') || error.message?.includes('timeout')) {
-        throw createError.network(
-          'Network error accessing YouTrack API',
-          'NETWORK_ERROR',
-          { endpoint, duration },
-          requestId
-        );
-      }
-
-      throw createError.api(
-        error.message || 'Unknown API error',
-        'API_ERROR',
-        { endpoint, duration, originalError: error },
-        requestId
-      );
-    }
+  private getRequestKey(endpoint: string, transport: Transport): string {
+    return `${transport.name}|${endpointKey(endpoint)}`;
   }
 
   /**
-   * Make direct HTTP request (for development/testing)
+   * Rate-limited request with 429 retries
    */
-  private async makeDirectRequest<T>(
+  private async executeRequest<T>(
     endpoint: string,
     options: APIRequestOptions,
-    requestId?: string
+    requestId: string | undefined,
+    transport: Transport
   ): Promise<APIResponse<T>> {
-    const startTime = performance.now();
-    const url = `${this.config.baseUrl || '/api'}/${endpoint}`;
-
-    try {
-      const response = await fetch(url, {
-        method: options.method || 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.config.token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...options.headers
-        },
-        body: options.body ? JSON.stringify(options.body) : undefined,
-        signal: AbortSignal.timeout(options.timeout || this.config.timeout || 10000)
-      });
-
-      const duration = performance.now() - startTime;
+    const maxRetries = options.retries ?? this.config.maxRetries ?? 3;
 
-      if (!response.ok) {
-        let errorData: any = {};
-        try {
-          errorData = await response.json();
-        } catch {
-          // Ignore JSON parse errors for error responses
-        }
-
-        throw createError.api(
-          errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-          errorData.code || `HTTP_${response.status}`,
-          {
-            status: response.status,
-            statusText: response.statusText,
-            url,
-            duration,
-            errorData
-          },
-          requestId
-        );
+    for (let attempt = 0; ; attempt++) {
+      // Wait for a token instead of failing when the window is full
+      const waitMs = await this.rateLimiter.acquire(options.priority);
+      if (waitMs > 0) {
+        this.logger.debug('Request delayed by rate limiter', { endpoint, waitMs, priority: options.priority, requestId });
       }
 
-      const data = await response.json();
+      // Every caller left while this request waited for a token
+      if (options.signal?.aborted) {
+        throw createError.network('Request aborted', 'REQUEST_ABORTED', { endpoint }, requestId);
+      }
 
-      return {
-        data,
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries()),
-        cached: false,
-        requestId: requestId || RequestIdGenerator.generate(),
-        timestamp: Date.now(),
-        duration
-      };
+      const startTime = performance.now();
 
-    } catch (error: any) {
-      const duration = performance.now() - startTime;
+      try {
+        this.logger.debug('Making API request', { endpoint, transport: transport.name, requestId });
 
-      if (error.name === 'AbortError') {
-        throw createError.network(
-          'Request timeout',
-          'TIMEOUT',
-          { url, timeout: options.timeout || this.config.timeout, duration },
-          requestId
-        );
-      }
+        const response = await transport.request<T>({
+          endpoint,
+          method: options.method || 'GET',
+          headers: options.headers,
+          body: options.body,
+          timeout: options.timeout || this.config.timeout || 10000,
+          signal: options.signal
+        }, requestId);
 
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        throw createError.network(
-          'Network connection failed',
-          'CONNECTION_FAILED',
-          { url, duration },
-          requestId
-        );
-      }
+        return {
+          ...response,
+          cached: false,
+          requestId: requestId || RequestIdGenerator.generate(),
+          timestamp: Date.now(),
+          duration: performance.now() - startTime
+        };
+      } catch (error: any) {
+        const retryAfterMs = this.getServerRetryAfter(error);
+        if (retryAfterMs === undefined || attempt >= maxRetries) {
+          throw error;
+        }
 
-      // Re-throw if already a structured error
-      if (error.type) {
-        throw error;
+        // 429: pause the whole bucket and queue this request again
+        this.rateLimiter.penalize(retryAfterMs);
+        this.logger.warn('Request rate limited by server, retrying', { endpoint, retryAfterMs, attempt: attempt + 1, requestId });
       }
-
-      throw createError.api(
-        error.message || 'Unknown request error',
-        'REQUEST_ERROR',
-        { url, duration, originalError: error },
-        requestId
-      );
     }
   }
 
   /**
-   * Raw fetch method for debouncing
+   * Delay requested by a server 429 response, undefined for any other error
    */
-  private async rawFetch(endpoint: string, options: APIRequestOptions = {}): Promise<any> {
-    return this.makeRequest(endpoint, options);
+  private getServerRetryAfter(error: any): number | undefined {
+    if (error?.code !== 'RATE_LIMITED' && error?.details?.status !== 429) {
+      return undefined;
+    }
+
+    return error.details?.retryAfterMs ?? this.config.retryDelay ?? 1000;
   }
 
   /**
@@ -845,7 +1220,11 @@ export class YouTrackAPI {
 
     // Update rate limiter if config changed
     if (newConfig.rateLimit) {
-      this.rateLimiter = new RateLimiter(this.config.rateLimit!);
+      this.rateLimiter.reconfigure(this.config.rateLimit!);
+    }
+
+    if (newConfig.transport || newConfig.baseUrl || newConfig.token) {
+      this.transport = this.createTransport();
     }
 
     this.logger.info('API configuration updated', newConfig);
@@ -862,7 +1241,10 @@ export class YouTrackAPI {
     rateLimitStatus: {
       remainingRequests: number;
       resetTime: number;
+      queueDepth: number;
     };
+    savedCalls: number; // Requests answered by joining an identical in-flight request
+    inFlightRequests: number;
   }> {
     const cacheStats = await globalCache.stats();
     const totalRequests = cacheStats.hitRate + cacheStats.missRate;
@@ -873,24 +1255,27 @@ export class YouTrackAPI {
       cacheMisses: Math.floor(totalRequests / 100 * cacheStats.missRate),
       averageResponseTime: 0, // Would need to track this separately
       rateLimitStatus: {
-        remainingRequests: Math.max(0, this.config.rateLimit!.maxRequests - this.rateLimiter['requests'].length),
-        resetTime: this.rateLimiter.getNextAvailableTime()
-      }
+        remainingRequests: this.rateLimiter.getAvailableTokens(),
+        resetTime: this.rateLimiter.getNextAvailableTime(),
+        queueDepth: this.rateLimiter.getQueueDepth()
+      },
+      savedCalls: globalRequestCoalescer.getSavedCalls(),
+      inFlightRequests: globalRequestCoalescer.getInFlightCount()
     };
   }
 
   /**
    * Process timer data from issues
    */
-  processTimerData(issues: IssueWithTimer[]): TimerEntry[] {
-    return processTimerData(issues);
+  processTimerData(issues: IssueWithTimer[], options?: TimerProcessingOptions): TimerEntry[] {
+    return processTimerData(issues, options);
   }
 
   /**
    * Calculate statistics from timer entries
    */
-  calculateStats(entries: TimerEntry[]): TimerStats {
-    return calculateStats(entries);
+  calculateStats(entries: TimerEntry[], options?: { elapsedMode?: ElapsedTimeMode }): TimerStats {
+    return calculateStats(entries, options);
   }
 
   /**
@@ -921,44 +1306,69 @@ export class YouTrackAPI {
 /**
  * Process timer data utility functions
  */
-export function processTimerData(issues: IssueWithTimer[]): TimerEntry[] {
-  const now = Date.now();
+export function processTimerData(issues: IssueWithTimer[], options: TimerProcessingOptions = {}): TimerEntry[] {
+  const now = options.now ?? Date.now();
   const entries: TimerEntry[] = [];
 
   issues.forEach(issue => {
     const issueKey = `${issue.project.shortName}-${issue.numberInProject}`;
     const issueUrl = `/issue/${issueKey}`;
 
-    Object.entries(issue.timerHashData).forEach(([username, timestamp]) => {
-      const startTime = parseInt(timestamp, 10);
-      if (isNaN(startTime)) return;
-
-      const elapsedMs = now - startTime;
-      const hours = elapsedMs / (1000 * 60 * 60);
-
-      // CORRIGIR: Remover "overtime", timers 8h+ são "critical"
-      let status: TimerEntry['status'] = 'ok';
-      if (hours >= 8) status = 'critical';      // 8h+ = crítico (era overtime)
-      else if (hours >= 4) status = 'long';     // 4-8h = longo
-      else if (hours >= 2) status = 'attention'; // 2-4h = atenção
-      // < 2h = ok (padrão)
+    const timers = issue.parsedTimers
+      ?? parseTimerHashData(issue.timerHashData, { issueId: issue.id, issueKey, now }).timers;
+
+    timers.forEach(({ username, userId, startTime, workType, paused, segments }) => {
+      // Só os segmentos em execução contam; segmentos abertos vão até agora
+      const runningSegments = (segments?.length ? segments : [{ start: startTime }])
+        .map(segment => ({ start: segment.start, end: Math.min(segment.end ?? now, now) }))
+        .filter(segment => segment.end > segment.start);
+
+      const wallElapsedMs = runningSegments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+      const pausedMs = Math.max(0, now - startTime - wallElapsedMs);
+      const workingElapsedMs = options.workCalendar
+        ? runningSegments.reduce(
+          (sum, segment) => sum + calculateWorkingElapsedMs(segment.start, segment.end, options.workCalendar),
+          0
+        )
+        : undefined;
+      const elapsedMs = options.elapsedMode === 'working' && workingElapsedMs !== undefined
+        ? workingElapsedMs
+        : wallElapsedMs;
+
+      // Thresholds resolvidos por usuário > projeto > global (padrão 2h/4h/8h)
+      const thresholds = resolveThresholds(options.alertConfig, {
+        username,
+        projectShortName: issue.project.shortName
+      });
+      // Timers em issues resolvidas ou projetos arquivados são obsoletos (esquecidos)
+      const stale = Boolean(issue.resolved) || Boolean(issue.project.archived);
+      const status = stale ? 'stale' : paused ? 'paused' : classifyTimerStatus(elapsedMs, thresholds);
 
       entries.push({
         id: `${issue.id}_${username}`,
         username,
+        userId,
         issueId: issue.id,
         issueKey,
         issueSummary: issue.summary,
         issueDescription: issue.description,
         startTime,
         elapsedMs,
+        wallElapsedMs,
+        workingElapsedMs,
+        pausedMs,
+        paused: paused || false,
+        segments,
         status,
         issueUrl,
         projectName: issue.project.name || issue.project.shortName,
         projectShortName: issue.project.shortName,
-        worktype: undefined, // Will be populated from work items data
+        worktype: workType, // From the nested payload; comments are checked afterwards
         assignees: issue.assignees?.map(a => a.fullName || a.login) || [],
         tags: (issue.tags || []).map((tag) => typeof tag === 'string' ? { id: tag, name: tag } : tag) as YouTrackTag[],
+        issueResolved: issue.resolved,
+        projectArchived: issue.project.archived || undefined,
+        state: issue.state,
         lastUpdated: issue.updated
       });
     });
@@ -967,24 +1377,90 @@ export function processTimerData(issues: IssueWithTimer[]): TimerEntry[] {
   // Sort by elapsed time (longest first)
   entries.sort((a, b) => b.elapsedMs - a.elapsedMs);
 
-  return entries;
+  const resolved = resolveTimerWorkTypes(entries, {
+    logs: options.timerLogs,
+    workItemTypes: options.workItemTypes
+  });
+
+  // Score depois do worktype, que escolhe a baseline mais específica
+  const scored = options.durationBaselines
+    ? attachAnomalyScores(resolved, options.durationBaselines, options.alertConfig)
+    : resolved;
+
+  const estimates = Object.fromEntries(issues.map(issue => [issue.id, issue.estimationMs]));
+  return attachEstimations(scored, estimates, options.spentTimeByIssue);
+}
+
+/**
+ * Collect Timer Hash Data diagnostics from processed issues
+ */
+export function collectTimerDiagnostics(issues: IssueWithTimer[]): TimerParseDiagnostic[] {
+  return issues.flatMap(issue => issue.timerDiagnostics || []);
+}
+
+/**
+ * Aggregate timer entries per issue: contributors, combined running time and first/last start
+ * Issues with more concurrent contributors come first
+ */
+export function calculateIssueBreakdown(
+  entries: TimerEntry[],
+  options: { elapsedMode?: ElapsedTimeMode } = {}
+): IssueTimerStats[] {
+  const issues = new Map<string, IssueTimerStats>();
+
+  entries.forEach(entry => {
+    const issue = issues.get(entry.issueId) || {
+      issueId: entry.issueId,
+      issueKey: entry.issueKey,
+      issueSummary: entry.issueSummary,
+      projectShortName: entry.projectShortName,
+      timerCount: 0,
+      contributors: [],
+      concurrentContributors: 0,
+      totalTimeMs: 0,
+      firstStartTime: entry.startTime,
+      lastStartTime: entry.startTime,
+      criticalCount: 0
+    };
+
+    issue.timerCount++;
+    issue.totalTimeMs += getEntryElapsedMs(entry, options.elapsedMode);
+    issue.firstStartTime = Math.min(issue.firstStartTime, entry.startTime);
+    issue.lastStartTime = Math.max(issue.lastStartTime, entry.startTime);
+    if (!issue.contributors.includes(entry.username)) issue.contributors.push(entry.username);
+    if (entry.status !== 'paused' && entry.status !== 'stale') issue.concurrentContributors++;
+    if (entry.status === 'critical') issue.criticalCount++;
+
+    issues.set(entry.issueId, issue);
+  });
+
+  return Array.from(issues.values()).sort((a, b) =>
+    b.concurrentContributors - a.concurrentContributors || b.totalTimeMs - a.totalTimeMs
+  );
 }
 
 /**
  * Calculate comprehensive statistics from timer entries
+ * Uses each entry's effective elapsed time unless an explicit elapsed mode is given
  */
-export function calculateStats(entries: TimerEntry[]): TimerStats {
+export function calculateStats(entries: TimerEntry[], options: { elapsedMode?: ElapsedTimeMode } = {}): TimerStats {
+  const elapsedOf = (entry: TimerEntry) => getEntryElapsedMs(entry, options.elapsedMode);
   const uniqueUsers = new Set(entries.map(e => e.username));
   const projectBreakdown = new Map();
   const userBreakdown = new Map();
+  const worktypeBreakdown = new Map();
 
   let totalTimeMs = 0;
   let criticalTimers = 0;
   let longTimers = 0;
   let attentionTimers = 0;
+  let pausedTimers = 0;
+  let staleTimers = 0;
+  let unusualTimers = 0;
 
   entries.forEach(entry => {
-    totalTimeMs += entry.elapsedMs;
+    const elapsedMs = elapsedOf(entry);
+    totalTimeMs += elapsedMs;
 
     // CORRIGIR: Remover "overtime", contar apenas "critical"
     switch (entry.status) {
@@ -997,9 +1473,17 @@ export function calculateStats(entries: TimerEntry[]): TimerStats {
       case 'attention':
         attentionTimers++;
         break;
+      case 'paused':
+        pausedTimers++;
+        break;
+      case 'stale':
+        staleTimers++;
+        break;
       // 'ok' não precisa contador
     }
 
+    if (entry.anomaly?.unusual) unusualTimers++;
+
     // Project breakdown
     if (!projectBreakdown.has(entry.projectShortName)) {
       projectBreakdown.set(entry.projectShortName, {
@@ -1016,7 +1500,7 @@ export function calculateStats(entries: TimerEntry[]): TimerStats {
 
     const project = projectBreakdown.get(entry.projectShortName);
     project.timerCount++;
-    project.totalTimeMs += entry.elapsedMs;
+    project.totalTimeMs += elapsedMs;
     // CORRIGIR: Apenas "critical", sem "overtime"
     if (entry.status === 'critical') project.criticalCount++;
     project.users.add(entry.username);
@@ -1036,11 +1520,29 @@ export function calculateStats(entries: TimerEntry[]): TimerStats {
 
     const user = userBreakdown.get(entry.username);
     user.timerCount++;
-    user.totalTimeMs += entry.elapsedMs;
-    user.longestTimerMs = Math.max(user.longestTimerMs, entry.elapsedMs);
+    user.totalTimeMs += elapsedMs;
+    user.longestTimerMs = Math.max(user.longestTimerMs, elapsedMs);
     // CORRIGIR: Apenas "critical", sem "overtime"
     if (entry.status === 'critical') user.criticalCount++;
     user.projects.add(entry.projectShortName);
+
+    // Worktype breakdown (timers sem tipo agrupados em null)
+    const worktypeKey = entry.worktype || null;
+    if (!worktypeBreakdown.has(worktypeKey)) {
+      worktypeBreakdown.set(worktypeKey, {
+        worktype: worktypeKey,
+        valid: entry.worktypeValid,
+        timerCount: 0,
+        totalTimeMs: 0,
+        averageTimeMs: 0,
+        users: new Set()
+      });
+    }
+
+    const worktype = worktypeBreakdown.get(worktypeKey);
+    worktype.timerCount++;
+    worktype.totalTimeMs += elapsedMs;
+    worktype.users.add(entry.username);
   });
 
   // Finalize breakdowns
@@ -1056,17 +1558,30 @@ export function calculateStats(entries: TimerEntry[]): TimerStats {
     projects: Array.from(user.projects)
   }));
 
+  const worktypeBreakdownArray = Array.from(worktypeBreakdown.values())
+    .map(worktype => ({
+      ...worktype,
+      averageTimeMs: worktype.timerCount > 0 ? worktype.totalTimeMs / worktype.timerCount : 0,
+      users: Array.from(worktype.users)
+    }))
+    .sort((a, b) => b.totalTimeMs - a.totalTimeMs);
+
   return {
     totalUsers: uniqueUsers.size,
     totalTimers: entries.length,
     criticalTimers,
     longTimers,
     attentionTimers,
+    pausedTimers,
+    staleTimers,
+    unusualTimers,
     totalTimeMs,
     averageTimeMs: entries.length > 0 ? totalTimeMs / entries.length : 0,
-    longestTimerMs: entries.length > 0 ? Math.max(...entries.map(e => e.elapsedMs)) : 0,
+    longestTimerMs: entries.length > 0 ? Math.max(...entries.map(elapsedOf)) : 0,
     projectBreakdown: projectBreakdownArray,
-    userBreakdown: userBreakdownArray
+    userBreakdown: userBreakdownArray,
+    worktypeBreakdown: worktypeBreakdownArray,
+    issueBreakdown: calculateIssueBreakdown(entries, options)
   };
 }
 
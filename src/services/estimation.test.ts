@@ -0,0 +1,74 @@
+/**
+ * Tests for estimate vs. actual tracking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateSpentTime, attachEstimations, calculateProjectEstimations, classifyEstimation, periodValueToMs } from './estimation';
+import { TimerEntry } from '../types';
+import { timerEntry } from '../test/fixtures';
+
+const HOUR = 60 * 60 * 1000;
+
+const entry = (issueId: string, username: string, hours: number, extra: Partial<TimerEntry> = {}): TimerEntry =>
+  timerEntry({ issueId, issueKey: issueId, username, elapsedMs: hours * HOUR, wallElapsedMs: hours * HOUR, ...extra });
+
+describe('classifyEstimation', () => {
+  it('should mark issues at risk from 80% and overrun past 100%', () => {
+    expect(classifyEstimation(undefined)).toBe('no_estimate');
+    expect(classifyEstimation(79)).toBe('on_track');
+    expect(classifyEstimation(80)).toBe('at_risk');
+    expect(classifyEstimation(100)).toBe('at_risk');
+    expect(classifyEstimation(101)).toBe('overrun');
+  });
+});
+
+describe('attachEstimations', () => {
+  it('should add logged time and every running timer of the issue', () => {
+    const spent = aggregateSpentTime([
+      { issue: { id: 'WEB-1' }, duration: { minutes: 120 } },
+      { issue: { id: 'WEB-1' }, duration: { minutes: 60 } },
+      { issue: { id: 'WEB-2' } }
+    ]);
+    const [alice, bob] = attachEstimations(
+      [entry('WEB-1', 'alice', 2), entry('WEB-1', 'bob', 1)],
+      { 'WEB-1': periodValueToMs({ minutes: 600 }) },
+      spent
+    );
+
+    expect(spent).toEqual({ 'WEB-1': 3 * HOUR });
+    expect(alice.estimation).toEqual({
+      estimateMs: 10 * HOUR,
+      spentMs: 3 * HOUR,
+      runningMs: 2 * HOUR,
+      issueRunningMs: 3 * HOUR,
+      consumedPercent: 60,
+      status: 'on_track'
+    });
+    expect(bob.estimation).toMatchObject({ runningMs: HOUR, consumedPercent: 60 });
+  });
+
+  it('should not count stale timers toward the actual time', () => {
+    const entries = attachEstimations(
+      [entry('WEB-1', 'alice', 1), entry('WEB-1', 'bob', 200, { status: 'stale', issueResolved: 1 })],
+      { 'WEB-1': 4 * HOUR }
+    );
+
+    expect(entries[1].estimation).toMatchObject({ runningMs: 0, issueRunningMs: HOUR, consumedPercent: 25, status: 'on_track' });
+    expect(calculateProjectEstimations(entries)).toEqual([
+      { projectShortName: 'WEB', issueCount: 1, estimateMs: 4 * HOUR, actualMs: HOUR, overrunMs: 0, overrunIssues: 0 }
+    ]);
+  });
+});
+
+describe('calculateProjectEstimations', () => {
+  it('should count each estimated issue once and sum overruns', () => {
+    const entries = attachEstimations(
+      [entry('WEB-1', 'alice', 3), entry('WEB-1', 'bob', 3), entry('WEB-2', 'alice', 1), entry('WEB-3', 'carol', 5)],
+      { 'WEB-1': 4 * HOUR, 'WEB-2': 2 * HOUR }
+    );
+
+    expect(calculateProjectEstimations(entries)).toEqual([
+      { projectShortName: 'WEB', issueCount: 2, estimateMs: 6 * HOUR, actualMs: 7 * HOUR, overrunMs: 2 * HOUR, overrunIssues: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Estimation Tracking
+ * Compares the "Estimation" field of issues with active timers against logged and running time
+ */
+
+import { DeepPartial, EstimationStatus, ProjectEstimationStats, TimerEntry, TimerEstimation, YouTrackWorkItem } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Share of the estimate after which an issue is considered at risk
+export const AT_RISK_PERCENT = 80;
+
+const ESTIMATION_FIELD_NAMES = ['estimation', 'estimativa', 'estimate'];
+
+/**
+ * Whether a custom field name refers to the estimation field
+ */
+export function isEstimationField(fieldName: string): boolean {
+  return ESTIMATION_FIELD_NAMES.includes(fieldName.trim().toLowerCase());
+}
+
+/**
+ * Read a period field value ({minutes, presentation}) as milliseconds
+ */
+export function periodValueToMs(value: { minutes?: number } | undefined): number | undefined {
+  const minutes = value?.minutes;
+  return typeof minutes === 'number' && minutes > 0 ? minutes * MS_PER_MINUTE : undefined;
+}
+
+/**
+ * Sum logged work item durations per issue id
+ */
+export function aggregateSpentTime(workItems: Array<DeepPartial<YouTrackWorkItem>>): Record<string, number> {
+  const spent: Record<string, number> = {};
+
+  workItems.forEach(item => {
+    const issueId = item.issue?.id;
+    const minutes = item.duration?.minutes;
+    if (!issueId || typeof minutes !== 'number') return;
+
+    spent[issueId] = (spent[issueId] || 0) + minutes * MS_PER_MINUTE;
+  });
+
+  return spent;
+}
+
+/**
+ * Classify how much of the estimate has been consumed
+ */
+export function classifyEstimation(consumedPercent?: number): EstimationStatus {
+  if (consumedPercent === undefined) return 'no_estimate';
+  if (consumedPercent > 100) return 'overrun';
+  if (consumedPercent >= AT_RISK_PERCENT) return 'at_risk';
+  return 'on_track';
+}
+
+/**
+ * Attach estimate vs. actual to every entry
+ * Actual time of an issue = logged work items + every timer still running on it
+ * Stale timers (resolved issues, archived projects) were forgotten, not worked, so they add nothing
+ */
+export function attachEstimations(
+  entries: TimerEntry[],
+  estimates: Record<string, number | undefined>,
+  spentTimeByIssue: Record<string, number> = {}
+): TimerEntry[] {
+  const countedMs = (entry: TimerEntry) => entry.status === 'stale' ? 0 : entry.elapsedMs;
+  const runningByIssue = new Map<string, number>();
+  entries.forEach(entry => {
+    runningByIssue.set(entry.issueId, (runningByIssue.get(entry.issueId) || 0) + countedMs(entry));
+  });
+
+  return entries.map(entry => {
+    const estimateMs = estimates[entry.issueId];
+    const spentMs = spentTimeByIssue[entry.issueId] || 0;
+    const issueRunningMs = runningByIssue.get(entry.issueId) || 0;
+    const consumedPercent = estimateMs
+      ? Math.round(((spentMs + issueRunningMs) / estimateMs) * 100)
+      : undefined;
+
+    const estimation: TimerEstimation = {
+      estimateMs,
+      spentMs,
+      runningMs: countedMs(entry),
+      issueRunningMs,
+      consumedPercent,
+      status: classifyEstimation(consumedPercent)
+    };
+
+    return { ...entry, estimation };
+  });
+}
+
+/**
+ * Estimate vs. actual per project, counting each estimated issue once
+ */
+export function calculateProjectEstimations(entries: TimerEntry[]): ProjectEstimationStats[] {
+  const seenIssues = new Set<string>();
+  const projects = new Map<string, ProjectEstimationStats>();
+
+  entries.forEach(entry => {
+    const estimation = entry.estimation;
+    if (!estimation?.estimateMs || seenIssues.has(entry.issueId)) return;
+    seenIssues.add(entry.issueId);
+
+    const project = projects.get(entry.projectShortName) || {
+      projectShortName: entry.projectShortName,
+      issueCount: 0,
+      estimateMs: 0,
+      actualMs: 0,
+      overrunMs: 0,
+      overrunIssues: 0
+    };
+
+    const actualMs = estimation.spentMs + estimation.issueRunningMs;
+    project.issueCount++;
+    project.estimateMs += estimation.estimateMs;
+    project.actualMs += actualMs;
+    if (actualMs > estimation.estimateMs) {
+      project.overrunMs += actualMs - estimation.estimateMs;
+      project.overrunIssues++;
+    }
+
+    projects.set(entry.projectShortName, project);
+  });
+
+  return Array.from(projects.values()).sort((a, b) => b.overrunMs - a.overrunMs);
+}
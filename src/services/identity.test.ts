@@ -0,0 +1,92 @@
+/**
+ * Tests for timer identity resolution
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { IdentityResolver, IdentitySource } from './identity';
+import { UserSummary } from './api';
+
+const account = (id: string, login: string, overrides: Partial<UserSummary> = {}): UserSummary =>
+  ({ id, login, fullName: login.toUpperCase(), email: `${login}@example.com`, banned: false, ...overrides } as UserSummary);
+
+// Answers `login: a or login: b` queries like YouTrack
+const source = (users: UserSummary[], groups: Record<string, string[]> = {}) => ({
+  fetchUser: vi.fn(async (id: string) => users.find(user => user.id === id) || null),
+  fetchUsers: vi.fn(async ({ query = '' }: { query?: string }) => {
+    const logins = Array.from(query.matchAll(/login: \{?([^{}\s]+)\}?/g), match => match[1]);
+    return users.filter(user => logins.includes(user.login));
+  }),
+  fetchUserGroups: vi.fn(async () => groups)
+});
+
+describe('IdentityResolver', () => {
+  it('should resolve logins, renamed accounts and banned users in one batch', async () => {
+    const users = [account('1-1', 'alice'), account('1-2', 'robert'), account('1-3', 'carol', { banned: true })];
+    const resolver = new IdentityResolver(source(users, { alice: ['Developers'] }) as IdentitySource);
+
+    const identities = await resolver.resolve([
+      { username: 'alice' },
+      { username: 'bob', userId: '1-2' },
+      { username: 'carol' },
+      { username: 'ghost' }
+    ]);
+
+    expect(identities.get('alice')).toMatchObject({ userId: '1-1', fullName: 'ALICE', groups: ['Developers'], matchedBy: 'login' });
+    expect(identities.get('bob')).toMatchObject({ login: 'robert', renamed: true, matchedBy: 'id' });
+    expect(identities.get('carol')).toMatchObject({ banned: true });
+    expect(identities.get('ghost')).toMatchObject({ matchedBy: 'none', fullName: 'ghost' });
+  });
+
+  it('should serve repeated usernames from the cache', async () => {
+    const directory = source([account('2-1', 'dave')]);
+    const resolver = new IdentityResolver(directory as IdentitySource);
+
+    await resolver.resolve([{ username: 'dave' }]);
+    const directoryCalls = directory.fetchUsers.mock.calls.length;
+    const identities = await resolver.resolve([{ username: 'dave' }]);
+
+    expect(identities.get('dave')?.login).toBe('dave');
+    expect(directory.fetchUsers).toHaveBeenCalledTimes(directoryCalls);
+  });
+
+  it('should look up the usernames missing from the cache in one query', async () => {
+    const directory = source([account('4-1', 'frank'), account('4-3', 'grace'), account('4-4', 'heidi')]);
+    const resolver = new IdentityResolver(directory as IdentitySource);
+
+    await resolver.resolve([{ username: 'frank' }]);
+    directory.fetchUsers.mockClear();
+    const identities = await resolver.resolve([
+      { username: 'frank' },
+      { username: 'grace', userId: '4-3' },
+      { username: 'renamed', userId: '4-4' }
+    ]);
+
+    expect(identities.get('frank')).toMatchObject({ userId: '4-1', matchedBy: 'login' });
+    expect(identities.get('renamed')).toMatchObject({ login: 'heidi', matchedBy: 'id', renamed: true });
+    expect(directory.fetchUsers.mock.calls.map(([options]) => options.query)).toEqual(['login: grace or login: renamed']);
+    // Only the login the query did not find is fetched by account id
+    expect(directory.fetchUser.mock.calls).toEqual([['4-4']]);
+  });
+
+  it('should resolve from a user list the caller already has, without renaming email matches', async () => {
+    const directory = source([]);
+    const users = [account('5-1', 'ivan'), account('5-2', 'judy')];
+
+    const identities = await new IdentityResolver(directory as IdentitySource)
+      .resolve([{ username: 'ivan' }, { username: 'judy@example.com', userId: '5-2' }], users);
+
+    expect(identities.get('ivan')).toMatchObject({ userId: '5-1', renamed: false });
+    expect(identities.get('judy@example.com')).toMatchObject({ login: 'judy', matchedBy: 'id', renamed: false });
+    expect(directory.fetchUsers).not.toHaveBeenCalled();
+    expect(directory.fetchUser).not.toHaveBeenCalled();
+  });
+
+  it('should keep identities when groups are unavailable', async () => {
+    const directory = source([account('3-1', 'erin')]);
+    directory.fetchUserGroups.mockRejectedValueOnce(new Error('Hub unavailable'));
+
+    const identities = await new IdentityResolver(directory as IdentitySource).resolve([{ username: 'erin' }]);
+
+    expect(identities.get('erin')).toMatchObject({ userId: '3-1', groups: [] });
+  });
+});
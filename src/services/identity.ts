@@ -0,0 +1,184 @@
+/**
+ * User Identity
+ * Resolves Timer Hash Data usernames to YouTrack accounts in one batch and caches them per username.
+ * Only usernames missing from the cache are looked up, in one users query (or in a user list the caller
+ * already has); renamed logins are followed through the account id written by newer workflows
+ */
+
+import { TimerEntry, UserIdentity } from '../types';
+import { globalCache, CacheKeyGenerator } from './cache';
+import { Logger } from './logger';
+import { compileQuery, q } from './youtrackQuery';
+import type { UserSummary, YouTrackAPI } from './api';
+
+const DEFAULT_IDENTITY_TTL_MS = 10 * 60 * 1000;
+// Logins per users query, short enough for the URL
+const LOOKUP_CHUNK_SIZE = 40;
+
+/**
+ * Where accounts and groups are read from
+ */
+export type IdentitySource = Pick<YouTrackAPI, 'fetchUser' | 'fetchUsers' | 'fetchUserGroups'>;
+
+/**
+ * A username to resolve, with the account id when the timer payload carries one
+ */
+export interface IdentityRef {
+  username: string;
+  userId?: string;
+}
+
+interface UserDirectory {
+  byLogin: Map<string, UserSummary>;
+  byId: Map<string, UserSummary>;
+  byEmail: Map<string, UserSummary>;
+}
+
+function indexUsers(users: UserSummary[]): UserDirectory {
+  const directory: UserDirectory = { byLogin: new Map(), byId: new Map(), byEmail: new Map() };
+
+  users.forEach(user => {
+    directory.byLogin.set(user.login.toLowerCase(), user);
+    directory.byId.set(user.id, user);
+    if (user.email) directory.byEmail.set(user.email.toLowerCase(), user);
+  });
+
+  return directory;
+}
+
+/**
+ * Match a username against the directory: account id first (survives renames), then login, then email
+ */
+function matchIdentity(ref: IdentityRef, directory: UserDirectory): UserIdentity {
+  const key = ref.username.toLowerCase();
+  const byId = ref.userId ? directory.byId.get(ref.userId) : undefined;
+  const byLogin = directory.byLogin.get(key);
+  const byEmail = directory.byEmail.get(key);
+  const user = byId || byLogin || byEmail;
+
+  if (!user) {
+    return {
+      key: ref.username,
+      userId: ref.userId,
+      login: ref.username,
+      fullName: ref.username,
+      groups: [],
+      banned: false,
+      renamed: false,
+      matchedBy: 'none'
+    };
+  }
+
+  return {
+    key: ref.username,
+    userId: user.id,
+    login: user.login,
+    fullName: user.fullName || user.login,
+    avatarUrl: user.avatarUrl,
+    email: user.email,
+    groups: [],
+    banned: Boolean(user.banned),
+    // Found by account id under another login; an email match is not a rename
+    renamed: Boolean(byId) && user.login.toLowerCase() !== key && user.email?.toLowerCase() !== key,
+    matchedBy: byId ? 'id' : byLogin ? 'login' : 'email'
+  };
+}
+
+/**
+ * Batch resolver with a per-username cache
+ */
+export class IdentityResolver {
+  private logger = Logger.getLogger('IdentityResolver');
+
+  constructor(private source: IdentitySource, private ttlMs: number = DEFAULT_IDENTITY_TTL_MS) {}
+
+  /**
+   * Accounts for the given usernames: one `login:` query per chunk, then the account id of each ref
+   * the query did not find (renamed logins). Banned accounts are included, so their timers still resolve
+   */
+  private async lookup(refs: IdentityRef[]): Promise<UserSummary[]> {
+    const users: UserSummary[] = [];
+
+    for (let i = 0; i < refs.length; i += LOOKUP_CHUNK_SIZE) {
+      const logins = refs.slice(i, i + LOOKUP_CHUNK_SIZE).map(ref => ref.username);
+      users.push(...await this.source.fetchUsers({
+        query: compileQuery(q.or(...logins.map(login => q.field('login', login)))),
+        limit: logins.length
+      }));
+    }
+
+    const foundIds = new Set(users.map(user => user.id));
+    const renamed = await Promise.all(refs
+      .filter(ref => ref.userId && !foundIds.has(ref.userId))
+      .map(ref => this.source.fetchUser(ref.userId!)));
+
+    return [...users, ...renamed.filter((user): user is UserSummary => Boolean(user))];
+  }
+
+  /**
+   * Resolve usernames to accounts; only cache misses are looked up, from `directory` when the caller
+   * already downloaded the users, else with a single batched query
+   */
+  async resolve(refs: IdentityRef[], directory?: UserSummary[]): Promise<Map<string, UserIdentity>> {
+    const identities = new Map<string, UserIdentity>();
+    const uniqueRefs = new Map<string, IdentityRef>();
+
+    // One ref per username, keeping the account id if any timer has it
+    refs.forEach(ref => {
+      if (!uniqueRefs.get(ref.username)?.userId) uniqueRefs.set(ref.username, ref);
+    });
+
+    const pending: IdentityRef[] = [];
+    for (const ref of uniqueRefs.values()) {
+      const cached = await globalCache.get<UserIdentity>(CacheKeyGenerator.userKey(ref.username));
+      if (cached) {
+        identities.set(ref.username, cached);
+      } else {
+        pending.push(ref);
+      }
+    }
+
+    if (pending.length === 0) {
+      return identities;
+    }
+
+    const users = indexUsers(directory || await this.lookup(pending));
+    const resolved = pending.map(ref => matchIdentity(ref, users));
+
+    // Groups are optional: without Hub access identities are still useful
+    try {
+      const groups = await this.source.fetchUserGroups(
+        resolved.filter(identity => identity.matchedBy !== 'none').map(identity => identity.login)
+      );
+      resolved.forEach(identity => {
+        identity.groups = groups[identity.login] || [];
+      });
+    } catch (error) {
+      this.logger.warn('Failed to fetch user groups, identities resolved without groups', error as Error);
+    }
+
+    await Promise.all(resolved.map(identity => {
+      identities.set(identity.key, identity);
+      return globalCache.set(CacheKeyGenerator.userKey(identity.key), identity, this.ttlMs);
+    }));
+
+    this.logger.info('Resolved timer identities', {
+      resolved: resolved.filter(identity => identity.matchedBy !== 'none').length,
+      unknown: resolved.filter(identity => identity.matchedBy === 'none').length,
+      renamed: resolved.filter(identity => identity.renamed).length,
+      fromDirectory: Boolean(directory)
+    });
+
+    return identities;
+  }
+}
+
+/**
+ * Attach resolved identities (and account ids) to timer entries
+ */
+export function attachIdentities(entries: TimerEntry[], identities: Map<string, UserIdentity>): TimerEntry[] {
+  return entries.map(entry => {
+    const identity = identities.get(entry.username);
+    return identity ? { ...entry, identity, userId: identity.userId ?? entry.userId } : entry;
+  });
+}
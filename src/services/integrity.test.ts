@@ -0,0 +1,52 @@
+/**
+ * Tests for timer data integrity checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectTimerConflicts } from './integrity';
+import { TimerEntry, YouTrackUser } from '../types';
+import { timerEntry } from '../test/fixtures';
+
+const timer = (username: string, issueKey: string, overrides: Partial<TimerEntry> = {}): TimerEntry =>
+  timerEntry({ username, issueKey, ...overrides });
+
+const user = (login: string, banned = false) => ({ id: login, login, fullName: login, banned } as YouTrackUser);
+
+describe('detectTimerConflicts', () => {
+  it('should flag users with timers on several issues', () => {
+    const report = detectTimerConflicts([timer('alice', 'BP-1'), timer('alice', 'BP-2'), timer('bob', 'BP-1')]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({ kind: 'multi_issue_user', username: 'alice', issueKeys: ['BP-1', 'BP-2'] })
+    ]);
+    expect(report.usersChecked).toBe(false);
+  });
+
+  it('should not count paused or stale timers as running on another issue', () => {
+    const report = detectTimerConflicts([
+      timer('alice', 'BP-1'),
+      timer('alice', 'BP-2', { status: 'paused', paused: true }),
+      timer('alice', 'BP-3', { status: 'stale', issueResolved: 1 }),
+      timer('bob', 'BP-1'),
+      timer('bob', 'BP-4', { status: 'critical' })
+    ]);
+
+    expect(report.findings.map(finding => [finding.kind, finding.username, finding.issueKeys])).toEqual([
+      ['multi_issue_user', 'bob', ['BP-1', 'BP-4']],
+      ['orphaned_timer', 'alice', ['BP-3']]
+    ]);
+  });
+
+  it('should flag orphaned timers and banned or unknown users', () => {
+    const report = detectTimerConflicts(
+      [timer('alice', 'BP-1', { issueResolved: 1 }), timer('bob', 'BP-2'), timer('carol', 'BP-3')],
+      { users: [user('alice'), user('bob', true)] }
+    );
+
+    expect(report.findings.map(finding => [finding.kind, finding.username])).toEqual([
+      ['unknown_user', 'carol'],
+      ['orphaned_timer', 'alice'],
+      ['banned_user', 'bob']
+    ]);
+  });
+});
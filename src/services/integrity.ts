@@ -0,0 +1,79 @@
+/**
+ * Timer Data Integrity
+ * Detects conflicting timers in live data: users running timers on several issues at once,
+ * timers left on resolved issues and timers owned by banned or unknown users
+ */
+
+import { IntegrityFinding, IntegrityReport, TimerEntry, YouTrackUser } from '../types';
+
+const uniqueKeys = (timers: TimerEntry[]) => Array.from(new Set(timers.map(timer => timer.issueKey)));
+
+/**
+ * Run all integrity checks over timer entries
+ * Banned and unknown user checks only run when a user list is given or identities were resolved;
+ * resolved identities win, so renamed logins are not reported as unknown
+ */
+export function detectTimerConflicts(
+  entries: TimerEntry[],
+  options: { users?: YouTrackUser[] } = {}
+): IntegrityReport {
+  const findings: IntegrityFinding[] = [];
+  const usersByLogin = new Map((options.users || []).map(user => [user.login, user]));
+  const usersChecked = usersByLogin.size > 0 || entries.some(entry => entry.identity);
+
+  const timersByUser = new Map<string, TimerEntry[]>();
+  entries.forEach(entry => {
+    const timers = timersByUser.get(entry.username) || [];
+    timers.push(entry);
+    timersByUser.set(entry.username, timers);
+  });
+
+  timersByUser.forEach((timers, username) => {
+    const issueKeys = uniqueKeys(timers);
+    // Only timers actually running conflict: paused ones wait, stale ones are reported as orphaned
+    const running = timers.filter(timer => !timer.paused && timer.status !== 'paused' && timer.status !== 'stale');
+    const runningKeys = uniqueKeys(running);
+    if (runningKeys.length > 1) {
+      findings.push({
+        kind: 'multi_issue_user',
+        severity: 'error',
+        username,
+        timerIds: running.map(timer => timer.id),
+        issueKeys: runningKeys
+      });
+    }
+
+    const orphaned = timers.filter(timer => timer.issueResolved);
+    if (orphaned.length > 0) {
+      findings.push({
+        kind: 'orphaned_timer',
+        severity: 'warning',
+        username,
+        timerIds: orphaned.map(timer => timer.id),
+        issueKeys: uniqueKeys(orphaned)
+      });
+    }
+
+    if (!usersChecked) return;
+
+    const identity = timers[0].identity;
+    const known = identity ? identity.matchedBy !== 'none' : usersByLogin.has(username);
+    const banned = identity ? identity.banned : Boolean(usersByLogin.get(username)?.banned);
+    if (!known || banned) {
+      findings.push({
+        kind: known ? 'banned_user' : 'unknown_user',
+        severity: known ? 'warning' : 'error',
+        username,
+        timerIds: timers.map(timer => timer.id),
+        issueKeys
+      });
+    }
+  });
+
+  // Errors first, then by username for a stable order
+  findings.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) || a.username.localeCompare(b.username)
+  );
+
+  return { findings, checkedTimers: entries.length, usersChecked };
+}
@@ -0,0 +1,47 @@
+/**
+ * Tests for paginated list fetching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { collectPages, paginate } from './pagination';
+import { PaginationProgress } from '../types';
+
+const source = (total: number) => {
+  const items = Array.from({ length: total }, (_, index) => index);
+  return vi.fn(async (skip: number, top: number) => items.slice(skip, skip + top));
+};
+
+describe('paginate', () => {
+  it('should load every page in order and stop at the first short page', async () => {
+    const fetchPage = source(25);
+
+    const items = await collectPages(fetchPage, { pageSize: 10, concurrency: 2 });
+
+    expect(items).toEqual(Array.from({ length: 25 }, (_, index) => index));
+    expect(fetchPage).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stop at the safety cap and report truncation', async () => {
+    const progress: PaginationProgress[] = [];
+
+    const items = await collectPages(source(100), {
+      pageSize: 10,
+      concurrency: 3,
+      maxItems: 25,
+      onProgress: update => progress.push(update)
+    });
+
+    expect(items).toHaveLength(25);
+    expect(progress[progress.length - 1]).toMatchObject({ loadedItems: 25, done: true, truncated: true });
+  });
+
+  it('should throw once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pages = paginate(source(100), { pageSize: 10, concurrency: 1, signal: controller.signal });
+
+    await pages.next();
+    controller.abort();
+
+    await expect(pages.next()).rejects.toMatchObject({ code: 'PAGINATION_ABORTED' });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Pagination
+ * Walks YouTrack $skip/$top list endpoints page by page, with parallel page requests,
+ * a hard safety cap and progress reporting
+ */
+
+import { PaginationConfig, PaginationOptions } from '../types';
+import { Logger } from './logger';
+import { createError } from './errorHandler';
+
+const logger = Logger.getLogger('Pagination');
+
+/**
+ * Default pagination settings
+ */
+export const DEFAULT_PAGINATION: PaginationConfig = {
+  pageSize: 100,
+  concurrency: 3,
+  maxItems: 10000
+};
+
+/**
+ * Fetches one page given the number of items to skip and the page size
+ */
+export type PageFetcher<T> = (skip: number, top: number) => Promise<T[]>;
+
+/**
+ * Iterate over pages in order. Stops at the first short page or once the safety cap is reached.
+ * Up to `concurrency` pages are requested at once; pages past the end simply come back empty.
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T[], void, undefined> {
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGINATION.pageSize);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_PAGINATION.concurrency);
+  const maxItems = Math.max(1, options.maxItems ?? DEFAULT_PAGINATION.maxItems);
+
+  let loadedItems = 0;
+  let page = 0;
+
+  while (loadedItems < maxItems) {
+    if (options.signal?.aborted) {
+      throw createError.network('Pagination aborted', 'PAGINATION_ABORTED', { loadedItems });
+    }
+
+    // Never request past the safety cap
+    const remainingPages = Math.ceil((maxItems - loadedItems) / pageSize);
+    const batchSize = Math.min(concurrency, remainingPages);
+    const batch = await Promise.all(
+      Array.from({ length: batchSize }, (_, index) => fetchPage((page + index) * pageSize, pageSize))
+    );
+
+    for (const items of batch) {
+      page++;
+
+      const room = maxItems - loadedItems;
+      const pageItems = items.length > room ? items.slice(0, room) : items;
+      loadedItems += pageItems.length;
+
+      const lastPage = items.length < pageSize;
+      const truncated = !lastPage && loadedItems >= maxItems;
+
+      options.onProgress?.({
+        page,
+        pageItems: pageItems.length,
+        loadedItems,
+        done: lastPage || truncated,
+        truncated
+      });
+
+      if (pageItems.length > 0) {
+        yield pageItems;
+      }
+
+      if (truncated) {
+        logger.warn('Pagination safety cap reached, remaining results dropped', { maxItems, pages: page });
+        return;
+      }
+
+      if (lastPage) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Load every page into a single array
+ */
+export async function collectPages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {}
+): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const page of paginate(fetchPage, options)) {
+    items.push(...page);
+  }
+
+  return items;
+}
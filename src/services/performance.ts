@@ -59,7 +59,9 @@ export class PerformanceMonitor {
       { metric: 'cache_hit_ratio', warning: 70, critical: 50 },
       { metric: 'bundle_size', warning: 1000000, critical: 2000000 }, // 1MB warning, 2MB critical
       { metric: 'memory_usage', warning: 50000000, critical: 100000000 }, // 50MB warning, 100MB critical
-      { metric: 'network_requests', warning: 10, critical: 20 }
+      { metric: 'network_requests', warning: 10, critical: 20 },
+      { metric: 'rate_limit_wait_time', warning: 2000, critical: 10000 },
+      { metric: 'rate_limit_queue_depth', warning: 20, critical: 100 }
     ];
   }
 
@@ -0,0 +1,37 @@
+/**
+ * Tests for typed field projections
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileFields, projection, ProjectionResult } from './projection';
+import { YouTrackIssue, YouTrackUser } from '../types';
+
+describe('projection', () => {
+  it('should compile nested specs into the fields parameter', () => {
+    const issueProjection = projection<YouTrackIssue>()({
+      id: true,
+      project: { shortName: true },
+      customFields: { name: true, value: { name: true, minutes: true }, field: { name: true } }
+    });
+
+    expect(issueProjection.fields).toBe('id,project(shortName),customFields(name,value(name,minutes),field(name))');
+  });
+
+  it('should narrow the result type to the requested fields', () => {
+    const userProjection = projection<YouTrackUser>()({ login: true, tags: { name: true } });
+    const user: ProjectionResult<typeof userProjection> = { login: 'alice', tags: [{ name: 'dev' }] };
+
+    // @ts-expect-error fullName was not requested
+    expect(user.fullName).toBeUndefined();
+    expect(user.tags?.[0].name).toBe('dev');
+  });
+
+  it('should reject fields that do not exist on the entity', () => {
+    // @ts-expect-error unknown top-level field
+    projection<YouTrackUser>()({ login: true, nickname: true });
+    // @ts-expect-error unknown nested field
+    projection<YouTrackIssue>()({ project: { code: true } });
+
+    expect(compileFields({ login: true })).toBe('login');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Field Projections
+ * Typed builder for the YouTrack `fields` parameter: the same spec produces the query string
+ * and the narrowed type of the response, so code can only read fields it actually requested
+ */
+
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+
+// Entity type behind arrays and optional values
+type Entity<T> = NonNullable<T> extends Array<infer Item> ? NonNullable<Item> : NonNullable<T>;
+
+/**
+ * Which fields to request: `true` for a scalar or a whole value, a nested spec for sub-fields
+ */
+export type FieldSpec<T> = IsAny<T> extends true
+  ? { [field: string]: true | FieldSpec<any> }
+  : { [K in keyof T]?: Entity<T[K]> extends object ? true | FieldSpec<Entity<T[K]>> : true };
+
+// Rejects fields that do not exist on the entity, at any depth
+type ValidSpec<T, S> = IsAny<T> extends true
+  ? S
+  : { [K in keyof S]: K extends keyof T ? (S[K] extends true ? true : ValidSpec<Entity<T[K]>, S[K]>) : never };
+
+type ProjectValue<V, S> =
+  IsAny<V> extends true ? any
+    : S extends true ? V
+    : V extends Array<infer Item> ? Array<ProjectValue<Item, S>>
+    : V extends object ? Projected<V, S>
+    : V;
+
+/**
+ * Entity type narrowed to the requested fields (optional fields stay optional)
+ */
+export type Projected<T, S> = {
+  [K in keyof Pick<T, Extract<keyof S, keyof T>>]: ProjectValue<T[K], S[K]>;
+};
+
+/**
+ * A compiled projection
+ */
+export interface Projection<T, S> {
+  readonly fields: string;
+  readonly spec: S;
+  // Type-only marker carrying the projected type
+  readonly __result?: Projected<T, S>;
+}
+
+/**
+ * Response type of a projection
+ */
+export type ProjectionResult<P> = P extends Projection<infer T, infer S> ? Projected<T, S> : never;
+
+/**
+ * Compile a spec into the `fields` parameter, e.g. `id,project(shortName)`
+ */
+export function compileFields(spec: Record<string, any>): string {
+  return Object.entries(spec)
+    .map(([field, value]) => (value === true ? field : `${field}(${compileFields(value)})`))
+    .join(',');
+}
+
+/**
+ * Define a projection over an entity type:
+ * `projection<YouTrackUser>()({ login: true, tags: { name: true } })`
+ */
+export function projection<T>() {
+  return <const S extends FieldSpec<T>>(spec: S & ValidSpec<T, S>): Projection<T, S> => ({
+    fields: compileFields(spec),
+    spec
+  });
+}
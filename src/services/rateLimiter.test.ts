@@ -0,0 +1,69 @@
+/**
+ * Tests for the token bucket rate limiter
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseRetryAfter, TokenBucketRateLimiter } from './rateLimiter';
+
+describe('TokenBucketRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue requests once the bucket is empty instead of failing', async () => {
+    // 1 token per second, bucket of 2
+    const limiter = new TokenBucketRateLimiter({ maxRequests: 1, windowMs: 1000, burst: 2 });
+
+    await expect(limiter.acquire()).resolves.toBe(0);
+    await expect(limiter.acquire()).resolves.toBe(0);
+
+    const third = limiter.acquire();
+    expect(limiter.getQueueDepth()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(third).resolves.toBe(1000);
+    expect(limiter.getQueueDepth()).toBe(0);
+  });
+
+  it('should serve interactive requests before background ones', async () => {
+    const limiter = new TokenBucketRateLimiter({ maxRequests: 1, windowMs: 1000, burst: 1 });
+    await limiter.acquire();
+
+    const order: string[] = [];
+    const background = limiter.acquire('background').then(() => order.push('background'));
+    const interactive = limiter.acquire('interactive').then(() => order.push('interactive'));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all([background, interactive]);
+
+    expect(order).toEqual(['interactive', 'background']);
+  });
+
+  it('should hold every request until the server Retry-After delay has passed', async () => {
+    const limiter = new TokenBucketRateLimiter({ maxRequests: 100, windowMs: 1000 });
+    limiter.penalize(5000);
+
+    const request = vi.fn();
+    limiter.acquire().then(request);
+
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(request).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(request).toHaveBeenCalled();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2024-03-10T12:00:00Z');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Sun, 10 Mar 2024 12:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Rate Limiter
+ * Token bucket with a priority queue: requests wait for a token instead of failing,
+ * interactive requests are served before background refreshes and server 429 responses pause the bucket
+ */
+
+import { RateLimitConfig, RequestPriority } from '../types';
+import { createError } from './errorHandler';
+import { Logger } from './logger';
+import { PerformanceMonitor } from './performance';
+
+const DEFAULT_MAX_QUEUE_SIZE = 500;
+
+// Served in this order whenever a token frees up
+const PRIORITY_ORDER: RequestPriority[] = ['interactive', 'background'];
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  resolve: (waitMs: number) => void;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Token bucket refilled continuously at maxRequests per windowMs
+ */
+export class TokenBucketRateLimiter {
+  private logger = Logger.getLogger('RateLimiter');
+  private monitor = PerformanceMonitor.getInstance();
+  private capacity = 1;
+  private refillPerMs = 0;
+  private tokens = 0;
+  private lastRefill = Date.now();
+  private queues: Record<RequestPriority, QueuedRequest[]> = { interactive: [], background: [] };
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private config: RateLimitConfig) {
+    this.reconfigure(config);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Apply a new configuration without dropping queued requests
+   */
+  reconfigure(config: RateLimitConfig): void {
+    this.refill();
+    this.config = config;
+    this.capacity = Math.max(1, config.burst ?? config.maxRequests);
+    this.refillPerMs = config.maxRequests / config.windowMs;
+    this.tokens = Math.min(this.tokens, this.capacity);
+    this.scheduleDrain();
+  }
+
+  /**
+   * Wait for a token. Resolves with the time spent waiting
+   */
+  acquire(priority: RequestPriority = 'interactive'): Promise<number> {
+    // Skip the queue only when nobody is waiting, so priorities are respected
+    if (this.getQueueDepth() === 0 && this.takeToken()) {
+      return Promise.resolve(0);
+    }
+
+    const maxQueueSize = this.config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    if (this.getQueueDepth() >= maxQueueSize) {
+      return Promise.reject(createError.api(
+        'Rate limit queue is full',
+        'RATE_LIMIT_EXCEEDED',
+        { queueDepth: this.getQueueDepth(), maxQueueSize }
+      ));
+    }
+
+    return new Promise(resolve => {
+      this.queues[priority].push({ priority, enqueuedAt: Date.now(), resolve });
+      this.recordQueueDepth();
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Feed a server-side rate limit back into the bucket: no request leaves before `retryAfterMs`
+   * and tokens only start refilling from then on
+   */
+  penalize(retryAfterMs: number): void {
+    const resumeAt = Date.now() + Math.max(0, retryAfterMs);
+
+    this.refill();
+    this.tokens = 0;
+    this.lastRefill = Math.max(this.lastRefill, resumeAt);
+
+    this.logger.warn('Server rate limit received, pausing requests', { retryAfterMs, queueDepth: this.getQueueDepth() });
+    this.scheduleDrain();
+  }
+
+  getQueueDepth(): number {
+    return PRIORITY_ORDER.reduce((depth, priority) => depth + this.queues[priority].length, 0);
+  }
+
+  /**
+   * Whole tokens available right now
+   */
+  getAvailableTokens(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Milliseconds until the next token is available (0 when one is available now)
+   */
+  getNextAvailableTime(): number {
+    this.refill();
+
+    const now = Date.now();
+    if (this.lastRefill > now) {
+      return this.lastRefill - now + Math.ceil(1 / this.refillPerMs);
+    }
+
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    // lastRefill lies in the future while paused by penalize()
+    if (now <= this.lastRefill) return;
+
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private takeToken(): boolean {
+    this.refill();
+
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    return true;
+  }
+
+  private nextQueued(): QueuedRequest | undefined {
+    const priority = PRIORITY_ORDER.find(candidate => this.queues[candidate].length > 0);
+    return priority ? this.queues[priority].shift() : undefined;
+  }
+
+  private drain(): void {
+    this.drainTimer = null;
+
+    while (this.getQueueDepth() > 0 && this.takeToken()) {
+      const request = this.nextQueued()!;
+      const waitMs = Date.now() - request.enqueuedAt;
+
+      this.monitor.recordMetric({
+        name: 'rate_limit_wait_time',
+        value: waitMs,
+        unit: 'ms',
+        timestamp: Date.now(),
+        category: 'network',
+        tags: { priority: request.priority }
+      });
+
+      request.resolve(waitMs);
+    }
+
+    this.recordQueueDepth();
+    this.scheduleDrain();
+  }
+
+  private scheduleDrain(): void {
+    if (this.getQueueDepth() === 0) return;
+
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+    }
+
+    this.drainTimer = setTimeout(() => this.drain(), this.getNextAvailableTime());
+  }
+
+  private recordQueueDepth(): void {
+    this.monitor.recordMetric({
+      name: 'rate_limit_queue_depth',
+      value: this.getQueueDepth(),
+      unit: 'count',
+      timestamp: Date.now(),
+      category: 'network'
+    });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Tests for in-flight request coalescing
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RequestCoalescer } from './requestCoalescer';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('RequestCoalescer', () => {
+  it('should share one in-flight request between identical callers and count the saved calls', async () => {
+    const coalescer = new RequestCoalescer();
+    const response = deferred<string>();
+    const execute = vi.fn(() => response.promise);
+
+    const first = coalescer.run('issues', execute);
+    const second = coalescer.run('issues', execute);
+    response.resolve('data');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['data', 'data']);
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(coalescer.getSavedCalls()).toBe(1);
+    expect(coalescer.getInFlightCount()).toBe(0);
+  });
+
+  it('should reject only the aborting caller while the shared request keeps going', async () => {
+    const coalescer = new RequestCoalescer();
+    const response = deferred<string>();
+    let sharedSignal: AbortSignal | undefined;
+    const execute = vi.fn((signal: AbortSignal) => {
+      sharedSignal = signal;
+      return response.promise;
+    });
+
+    const controller = new AbortController();
+    const aborting = coalescer.run('issues', execute, controller.signal);
+    const staying = coalescer.run('issues', execute, new AbortController().signal);
+
+    controller.abort();
+    await expect(aborting).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    expect(sharedSignal?.aborted).toBe(false);
+
+    response.resolve('data');
+    await expect(staying).resolves.toBe('data');
+  });
+
+  it('should cancel the shared request once every caller has aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    let sharedSignal: AbortSignal | undefined;
+    const controller = new AbortController();
+
+    const request = coalescer.run('issues', signal => {
+      sharedSignal = signal;
+      return new Promise<string>(() => undefined);
+    }, controller.signal);
+
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    expect(sharedSignal?.aborted).toBe(true);
+    expect(coalescer.getInFlightCount()).toBe(0);
+  });
+});
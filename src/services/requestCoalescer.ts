@@ -0,0 +1,112 @@
+/**
+ * Request Coalescer
+ * Collapses identical concurrent requests into a single in-flight promise shared by every caller.
+ * Each caller can abort on its own; the shared request is only cancelled when all of them have left
+ */
+
+import { createError } from './errorHandler';
+import { Logger } from './logger';
+
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Shares in-flight promises by request key
+ */
+export class RequestCoalescer {
+  private logger = Logger.getLogger('RequestCoalescer');
+  private inFlight = new Map<string, InFlightRequest<any>>();
+  private savedCalls = 0;
+
+  /**
+   * Run `execute` unless an identical request is already in flight, in which case join it
+   * `execute` receives a signal that fires once every subscriber has aborted
+   */
+  run<T>(key: string, execute: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(this.abortError(key));
+    }
+
+    let entry = this.inFlight.get(key) as InFlightRequest<T> | undefined;
+
+    if (entry) {
+      this.savedCalls++;
+      this.logger.debug('Joined in-flight request', { key, subscribers: entry.subscribers + 1 });
+    } else {
+      const controller = new AbortController();
+      const created: InFlightRequest<T> = {
+        controller,
+        subscribers: 0,
+        promise: execute(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        })
+      };
+      // Subscribers handle rejections; this keeps an abandoned request from raising an unhandled rejection
+      created.promise.catch(() => undefined);
+
+      entry = created;
+      this.inFlight.set(key, entry);
+    }
+
+    entry.subscribers++;
+    return this.subscribe(key, entry, signal);
+  }
+
+  /**
+   * Calls answered by joining an in-flight request instead of hitting the server
+   */
+  getSavedCalls(): number {
+    return this.savedCalls;
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  private subscribe<T>(key: string, entry: InFlightRequest<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+
+        // Nobody is waiting anymore: cancel the shared request and let the next caller start fresh
+        if (entry.subscribers === 0) {
+          entry.controller.abort();
+          if (this.inFlight.get(key) === entry) {
+            this.inFlight.delete(key);
+          }
+        }
+
+        reject(this.abortError(key));
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      entry.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private abortError(key: string) {
+    return createError.network('Request aborted', 'REQUEST_ABORTED', { key });
+  }
+}
+
+// Shared across API client instances so separate widgets and hooks coalesce too
+export const globalRequestCoalescer = new RequestCoalescer();
@@ -0,0 +1,87 @@
+/**
+ * Tests for timer status thresholds
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyTimerStatus, resolveThresholds, validateAlertConfig, DEFAULT_ALERT_CONFIG } from './thresholds';
+import { calculateStats, processTimerData } from './api';
+import { AlertConfig, IssueWithTimer } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 2, 11, 15);
+
+const config: AlertConfig = {
+  ...DEFAULT_ALERT_CONFIG,
+  projectThresholds: { OPS: { attentionThreshold: 1, longThreshold: 3 } },
+  customThresholds: { alice: { attentionThreshold: 0.5 } }
+};
+
+const issue = (id: string, project: string, timers: Array<[string, number]>): IssueWithTimer => ({
+  id,
+  summary: id,
+  project: { id: project, name: project, shortName: project },
+  numberInProject: 1,
+  timerHashData: {},
+  parsedTimers: timers.map(([username, startTime]) => ({ username, startTime, segments: [{ start: startTime }] })),
+  created: 0,
+  updated: 0
+} as IssueWithTimer);
+
+describe('resolveThresholds', () => {
+  it('should take each threshold from the user, then the project, then the global config', () => {
+    expect(resolveThresholds(config)).toEqual({ attentionThreshold: 2, longThreshold: 4, criticalThreshold: 8 });
+    expect(resolveThresholds(config, { projectShortName: 'OPS' })).toEqual({ attentionThreshold: 1, longThreshold: 3, criticalThreshold: 8 });
+    expect(resolveThresholds(config, { username: 'alice', projectShortName: 'OPS' }))
+      .toEqual({ attentionThreshold: 0.5, longThreshold: 3, criticalThreshold: 8 });
+    expect(resolveThresholds(config, { username: 'alice', projectShortName: 'WEB' }))
+      .toEqual({ attentionThreshold: 0.5, longThreshold: 4, criticalThreshold: 8 });
+  });
+});
+
+describe('classifyTimerStatus', () => {
+  it('should move to the next status exactly at each threshold', () => {
+    const thresholds = resolveThresholds(DEFAULT_ALERT_CONFIG);
+
+    expect(classifyTimerStatus(2 * HOUR - 1, thresholds)).toBe('ok');
+    expect(classifyTimerStatus(2 * HOUR, thresholds)).toBe('attention');
+    expect(classifyTimerStatus(4 * HOUR - 1, thresholds)).toBe('attention');
+    expect(classifyTimerStatus(4 * HOUR, thresholds)).toBe('long');
+    expect(classifyTimerStatus(8 * HOUR - 1, thresholds)).toBe('long');
+    expect(classifyTimerStatus(8 * HOUR, thresholds)).toBe('critical');
+  });
+});
+
+describe('processTimerData statuses', () => {
+  it('should classify each timer with its own thresholds and count them in the stats', () => {
+    const timers = processTimerData([
+      issue('2-1', 'OPS', [['alice', NOW - 45 * 60 * 1000], ['bob', NOW - 3 * HOUR]]),
+      issue('2-2', 'WEB', [['bob', NOW - 3 * HOUR]]),
+      { ...issue('2-3', 'WEB', [['carol', NOW - 9 * HOUR]]), resolved: NOW - HOUR }
+    ], { alertConfig: config, now: NOW });
+
+    const status = (id: string) => timers.find(timer => timer.id === id)?.status;
+    expect(status('2-1_alice')).toBe('attention');
+    expect(status('2-1_bob')).toBe('long');
+    expect(status('2-2_bob')).toBe('attention');
+    // Forgotten on a resolved issue: stale, never critical
+    expect(status('2-3_carol')).toBe('stale');
+
+    expect(calculateStats(timers)).toMatchObject({ attentionTimers: 2, longTimers: 1, criticalTimers: 0, staleTimers: 1 });
+  });
+});
+
+describe('validateAlertConfig', () => {
+  it('should reject overrides that are only out of order once merged', () => {
+    // Each override is fine against the global thresholds, but alice on OPS gets attention 3.5 >= long 3
+    const problems = validateAlertConfig({
+      ...DEFAULT_ALERT_CONFIG,
+      projectThresholds: { OPS: { longThreshold: 3 } },
+      customThresholds: { alice: { attentionThreshold: 3.5 } }
+    });
+
+    expect(problems).toEqual([
+      { scope: { username: 'alice', projectShortName: 'OPS' }, message: 'attentionThreshold must be lower than longThreshold' }
+    ]);
+    expect(validateAlertConfig(config)).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Timer Status Thresholds
+ * Resolves global, per-project and per-user alert thresholds and classifies running timers
+ */
+
+import { AlertConfig, TimerStatus, TimerThresholds } from '../types';
+import { DEFAULT_ANOMALY_THRESHOLD } from './anomaly';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * Default alert configuration (matches the historical 2h/4h/8h cut-offs)
+ */
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  enabled: true,
+  attentionThreshold: 2,
+  longThreshold: 4,
+  criticalThreshold: 8,
+  soundEnabled: false,
+  browserNotifications: false,
+  customThresholds: {},
+  projectThresholds: {},
+  anomalyThreshold: DEFAULT_ANOMALY_THRESHOLD
+};
+
+/**
+ * Scope used to pick the most specific thresholds for a timer
+ */
+export interface ThresholdScope {
+  username?: string;
+  projectShortName?: string;
+}
+
+/**
+ * Resolve the effective thresholds for a timer.
+ * Precedence: user overrides > project overrides > global thresholds.
+ */
+export function resolveThresholds(
+  config: AlertConfig = DEFAULT_ALERT_CONFIG,
+  scope: ThresholdScope = {}
+): TimerThresholds {
+  const projectOverrides = scope.projectShortName
+    ? config.projectThresholds?.[scope.projectShortName]
+    : undefined;
+  const userOverrides = scope.username
+    ? config.customThresholds?.[scope.username]
+    : undefined;
+
+  return {
+    attentionThreshold: userOverrides?.attentionThreshold
+      ?? projectOverrides?.attentionThreshold
+      ?? config.attentionThreshold,
+    longThreshold: userOverrides?.longThreshold
+      ?? projectOverrides?.longThreshold
+      ?? config.longThreshold,
+    criticalThreshold: userOverrides?.criticalThreshold
+      ?? projectOverrides?.criticalThreshold
+      ?? config.criticalThreshold
+  };
+}
+
+/**
+ * Classify elapsed time against a set of thresholds
+ */
+export function classifyTimerStatus(elapsedMs: number, thresholds: TimerThresholds): TimerStatus {
+  const hours = elapsedMs / MS_PER_HOUR;
+
+  if (hours >= thresholds.criticalThreshold) return 'critical';
+  if (hours >= thresholds.longThreshold) return 'long';
+  if (hours >= thresholds.attentionThreshold) return 'attention';
+  return 'ok';
+}
+
+/**
+ * Validate a set of thresholds, returning human readable problems (empty when valid)
+ */
+export function validateThresholds(thresholds: Partial<TimerThresholds>): string[] {
+  const errors: string[] = [];
+  const { attentionThreshold, longThreshold, criticalThreshold } = thresholds;
+
+  for (const [name, value] of Object.entries(thresholds)) {
+    if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+      errors.push(`${name} must be a positive number of hours`);
+    }
+  }
+
+  if (attentionThreshold !== undefined && longThreshold !== undefined && attentionThreshold >= longThreshold) {
+    errors.push('attentionThreshold must be lower than longThreshold');
+  }
+
+  if (longThreshold !== undefined && criticalThreshold !== undefined && longThreshold >= criticalThreshold) {
+    errors.push('longThreshold must be lower than criticalThreshold');
+  }
+
+  return errors;
+}
+
+/**
+ * A problem with the thresholds a timer in `scope` would actually get
+ */
+export interface ThresholdProblem {
+  scope: ThresholdScope; // Empty for the global thresholds
+  message: string;
+}
+
+/**
+ * Validate the merged thresholds of every scope an alert configuration can produce:
+ * global, each project, each user, and each user inside each overridden project
+ * Overrides that look fine against the global thresholds can still clash once merged
+ */
+export function validateAlertConfig(config: AlertConfig): ThresholdProblem[] {
+  const projects = Object.keys(config.projectThresholds || {});
+  const users = Object.keys(config.customThresholds || {});
+  const scopes: ThresholdScope[] = [
+    {},
+    ...projects.map(projectShortName => ({ projectShortName })),
+    ...users.flatMap(username => [{ username }, ...projects.map(projectShortName => ({ username, projectShortName }))])
+  ];
+
+  return scopes.flatMap(scope =>
+    validateThresholds(resolveThresholds(config, scope)).map(message => ({ scope, message }))
+  );
+}
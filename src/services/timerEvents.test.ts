@@ -0,0 +1,128 @@
+/**
+ * Tests for timer event sources
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CommentTimerEventSource,
+  EN_TIMER_COMMENTS,
+  FieldTimerEventSource,
+  mergeTimerEvents,
+  parseTimerDuration
+} from './timerEvents';
+import { YouTrackAPI } from './api';
+import { TimerEvent, TimerEventContext, TimerEventSource, Transport } from '../types';
+
+const range = { since: 1000, until: 10_000 };
+const issue = { id: '2-1', idReadable: 'ABC-1', summary: 'Login page', project: { shortName: 'ABC' } };
+
+const context = (issues: any[], activities: any[] = []): TimerEventContext => ({
+  fetchIssues: async <T>() => issues as T[],
+  fetchActivities: async <T>() => activities as T[]
+});
+
+describe('CommentTimerEventSource', () => {
+  it('should parse pt-BR workflow comments into typed events', async () => {
+    const comments = [
+      { id: 'c1', created: 2000, text: '▶️ **TIMER INICIADO**\n💻 **Tipo de trabalho: Development**', author: { login: 'alice', fullName: 'Alice' } },
+      { id: 'c2', created: 3000, text: '⏹️ **TIMER PARADO**\n⏱️ **Tempo trabalhado: 1h 5min**\n', author: { login: 'alice' } },
+      { id: 'c3', created: 4000, text: '⏰ TIMER CANCELADO AUTOMATICAMENTE', author: { login: 'bob' } },
+      { id: 'c4', created: 5000, text: 'Just a comment', author: { login: 'bob' } },
+      { id: 'c5', created: 500, text: 'TIMER PARADO', author: { login: 'bob' } }
+    ].map(comment => ({ ...comment, issue }));
+    const activities = comments.map(comment => ({ id: `a-${comment.id}`, timestamp: comment.created, added: [comment] }));
+
+    const events = await new CommentTimerEventSource().fetchEvents(range, context([], activities));
+
+    expect(events).toHaveLength(3);
+    expect(events[0]).toMatchObject({ id: '2-1-c1', type: 'timer_started', workType: 'Development', issueKey: 'ABC-1', source: 'comments:pt-BR' });
+    expect(events[1]).toMatchObject({ type: 'timer_stopped', duration: '1h 5min', durationMs: 65 * 60 * 1000 });
+    expect(events[2]).toMatchObject({ type: 'timer_auto_canceled', reason: '8+ horas consecutivas' });
+  });
+
+  it('should follow the configured locale patterns', () => {
+    const source = new CommentTimerEventSource(EN_TIMER_COMMENTS);
+
+    expect(source.parseComment('⏹️ TIMER STOPPED\n🔧 Work type: Testing\n⏱️ Time worked: 25 min')).toMatchObject({
+      type: 'timer_stopped',
+      workType: 'Testing',
+      durationMs: 25 * 60 * 1000
+    });
+    expect(source.parseComment('▶️ TIMER INICIADO')).toBeNull();
+  });
+});
+
+describe('FieldTimerEventSource', () => {
+  it('should read JSON events from the dedicated field and skip unreadable values', async () => {
+    const value = JSON.stringify([
+      { id: 'e1', type: 'timer_stopped', at: 6000, user: 'carol', workType: 'Review', durationMs: 1800000 },
+      { type: 'something_new', at: '1970-01-01T00:00:07.000Z', user: 'carol' },
+      { id: 'e3', type: 'timer_started', at: 50_000, user: 'carol' }
+    ]);
+
+    const events = await new FieldTimerEventSource().fetchEvents(range, context([
+      { ...issue, customFields: [{ name: 'Timer Events', value: { text: value } }] },
+      { ...issue, id: '2-2', customFields: [{ name: 'Timer Events', value: 'not json' }] }
+    ]));
+
+    expect(events).toEqual([
+      expect.objectContaining({ id: '2-1-e1', type: 'timer_stopped', author: { login: 'carol', fullName: undefined }, durationMs: 1800000 }),
+      expect.objectContaining({ type: 'unknown', created: 7000 })
+    ]);
+  });
+});
+
+describe('mergeTimerEvents', () => {
+  it('should keep the first source on duplicate ids and sort newest first', () => {
+    const event = (id: string, created: number, source: string) => ({ id, created, source } as TimerEvent);
+
+    expect(mergeTimerEvents([
+      [event('a', 1, 'comments:pt-BR'), event('b', 3, 'comments:pt-BR')],
+      [event('a', 1, 'field:Timer Events'), event('c', 2, 'field:Timer Events')]
+    ]).map(e => `${e.id}:${e.source}`)).toEqual(['b:comments:pt-BR', 'c:field:Timer Events', 'a:comments:pt-BR']);
+  });
+});
+
+describe('parseTimerDuration', () => {
+  it('should read hours and minutes in both wordings', () => {
+    expect(parseTimerDuration('2h')).toBe(2 * 60 * 60 * 1000);
+    expect(parseTimerDuration('25 minutos')).toBe(25 * 60 * 1000);
+    expect(parseTimerDuration('-')).toBeUndefined();
+  });
+});
+
+describe('YouTrackAPI.fetchTimerLogs', () => {
+  it('should walk every page of the requested range', async () => {
+    const issues = Array.from({ length: 250 }, (_, index) => ({ id: `2-${index}` }));
+    const endpoints: string[] = [];
+    const transport: Transport = {
+      name: 'paged',
+      request: async <T>({ endpoint }) => {
+        endpoints.push(endpoint);
+        const params = new URLSearchParams(endpoint.split('?')[1]);
+        const skip = Number(params.get('$skip'));
+        return { data: issues.slice(skip, skip + Number(params.get('$top'))) as T, status: 200, statusText: 'OK', headers: {} };
+      }
+    };
+    const probe: TimerEventSource = {
+      name: 'probe',
+      fetchEvents: async (eventRange, eventContext) => (await eventContext.fetchIssues<{ id: string }>('has: {Timer Events}', 'id'))
+        .map(({ id }) => ({ id, type: 'timer_started', created: eventRange.since, issueId: id, source: 'probe' } as TimerEvent))
+    };
+    const api = new YouTrackAPI(undefined, {
+      maxRetries: 0,
+      rateLimit: { maxRequests: 100, windowMs: 1000 },
+      cache: { enabled: false, defaultTtl: 0 },
+      pagination: { pageSize: 100, concurrency: 1, maxItems: 10000 },
+      transport,
+      timerEvents: [probe]
+    });
+
+    const events = await api.fetchTimerLogs({ from: 1000, to: 5000 });
+
+    expect(events).toHaveLength(250);
+    expect(events[0].created).toBe(1000);
+    expect(endpoints).toHaveLength(3);
+    await expect(api.fetchTimerLogs({ from: 5000, to: 1000 })).rejects.toMatchObject({ code: 'INVALID_DATE_RANGE' });
+  });
+});
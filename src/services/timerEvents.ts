@@ -0,0 +1,331 @@
+/**
+ * Timer Events
+ * Typed timer actions read from pluggable sources: the workflow comments (locale-aware patterns),
+ * a dedicated events custom field, or the Timer Hash Data activity stream (see timerHistory.ts).
+ * Sources only produce TimerEvent values, so new ones can be added without touching the widget
+ */
+
+import {
+  TimerEvent,
+  TimerEventContext,
+  TimerEventRange,
+  TimerEventSource,
+  TimerEventType,
+  YouTrackActivityItem,
+  YouTrackComment,
+  YouTrackIssue
+} from '../types';
+import { Logger } from './logger';
+import { projection, ProjectionResult } from './projection';
+import { compileQuery, q } from './youtrackQuery';
+
+/**
+ * How one action is recognised in a workflow comment
+ */
+export interface TimerCommentAction {
+  type: TimerEventType;
+  match: RegExp;
+  reason?: string; // Shown when the comment itself carries no reason
+}
+
+/**
+ * Wording of the workflow comments for one locale
+ * Actions are tried in order, so more specific markers must come first
+ */
+export interface TimerCommentPatterns {
+  locale: string;
+  actions: TimerCommentAction[];
+  workType: RegExp; // First group: work type name
+  duration: RegExp; // First group: duration text
+}
+
+/**
+ * Comments written by the pt-BR timer workflows
+ */
+export const PT_BR_TIMER_COMMENTS: TimerCommentPatterns = {
+  locale: 'pt-BR',
+  actions: [
+    { type: 'timer_started', match: /TIMER INICIADO/ },
+    { type: 'timer_stopped', match: /TIMER PARADO/ },
+    { type: 'timer_auto_canceled', match: /TIMER CANCELADO AUTOMATICAMENTE/, reason: '8+ horas consecutivas' },
+    { type: 'timer_canceled', match: /TIMER CANCELADO/, reason: 'Cancelado pelo usuário' },
+    { type: 'timer_blocked', match: /TIMER BLOQUEADO/, reason: 'Timer já ativo em outra issue' },
+    { type: 'timer_duplicate', match: /TIMER JÁ ATIVO/, reason: 'Timer já ativo nesta issue' }
+  ],
+  workType: /(?:[💻🔧👥📋🔍🧪📝📚👀⚙️🛠️]\s*)?(?:\*\*)?Tipo de trabalho:\s*(.+?)(?:\*\*)?(?:\n|$)/u,
+  duration: /⏱️\s*(?:\*\*)?Tempo trabalhado:\s*(.+?)(?:\*\*)?(?:\n|$)/u
+};
+
+/**
+ * Comments written by the English timer workflows
+ */
+export const EN_TIMER_COMMENTS: TimerCommentPatterns = {
+  locale: 'en',
+  actions: [
+    { type: 'timer_started', match: /TIMER STARTED/ },
+    { type: 'timer_stopped', match: /TIMER STOPPED/ },
+    { type: 'timer_auto_canceled', match: /TIMER AUTO-?CANCELED/, reason: '8+ consecutive hours' },
+    { type: 'timer_canceled', match: /TIMER CANCELED/, reason: 'Canceled by user' },
+    { type: 'timer_blocked', match: /TIMER BLOCKED/, reason: 'Timer already running on another issue' },
+    { type: 'timer_duplicate', match: /TIMER ALREADY (?:RUNNING|ACTIVE)/, reason: 'Timer already running on this issue' }
+  ],
+  workType: /(?:[💻🔧👥📋🔍🧪📝📚👀⚙️🛠️]\s*)?(?:\*\*)?Work type:\s*(.+?)(?:\*\*)?(?:\n|$)/u,
+  duration: /⏱️\s*(?:\*\*)?Time worked:\s*(.+?)(?:\*\*)?(?:\n|$)/u
+};
+
+export const TIMER_COMMENT_PATTERNS: Record<string, TimerCommentPatterns> = {
+  'pt-BR': PT_BR_TIMER_COMMENTS,
+  en: EN_TIMER_COMMENTS
+};
+
+export const DEFAULT_TIMER_EVENTS_FIELD = 'Timer Events';
+
+const TIMER_EVENT_TYPES: TimerEventType[] = [
+  'timer_started', 'timer_stopped', 'timer_canceled', 'timer_auto_canceled', 'timer_blocked', 'timer_duplicate'
+];
+
+const TIMER_COMMENT_PROJECTION = projection<YouTrackComment>()({
+  id: true,
+  created: true,
+  text: true,
+  author: { login: true, fullName: true },
+  issue: { id: true, idReadable: true, summary: true, project: { shortName: true } }
+});
+
+// Comments added inside the range, read from the activity stream instead of every comment of every issue
+const COMMENT_ACTIVITY_PROJECTION = projection<YouTrackActivityItem>()({
+  id: true,
+  timestamp: true,
+  added: TIMER_COMMENT_PROJECTION.spec
+});
+
+const FIELD_ISSUE_PROJECTION = projection<YouTrackIssue>()({
+  id: true,
+  idReadable: true,
+  summary: true,
+  project: { shortName: true },
+  customFields: { name: true, value: { text: true } }
+});
+
+type TimerComment = ProjectionResult<typeof TIMER_COMMENT_PROJECTION>;
+type CommentActivity = ProjectionResult<typeof COMMENT_ACTIVITY_PROJECTION>;
+type FieldIssue = ProjectionResult<typeof FIELD_ISSUE_PROJECTION>;
+
+/**
+ * Parse a workflow duration ("1h 5min", "25 minutos", "2h", "1h 30m") into milliseconds
+ */
+export function parseTimerDuration(text?: string): number | undefined {
+  if (!text) return undefined;
+
+  const hours = text.match(/(\d+)\s*h/i);
+  const minutes = text.match(/(\d+)\s*m/i);
+  if (!hours && !minutes) return undefined;
+
+  const totalMinutes = (hours ? parseInt(hours[1], 10) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0);
+  return totalMinutes * 60 * 1000;
+}
+
+/**
+ * Format a duration the way the workflows write it ("1h 5min", "25min")
+ */
+export function formatTimerDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes}min`;
+  return minutes > 0 ? `${hours}h ${minutes}min` : `${hours}h`;
+}
+
+function cleanMatch(text: string, pattern: RegExp): string | undefined {
+  const match = text.match(pattern);
+  const value = match?.[1]?.replace(/\*\*/g, '').trim();
+  return value || undefined;
+}
+
+// Issues touched inside the range; events are then filtered by their own timestamp
+function issuesUpdatedIn(range: TimerEventRange): string {
+  return compileQuery(q.range('updated', new Date(range.since)));
+}
+
+function issueInfo(issue: NonNullable<TimerComment['issue']> | FieldIssue) {
+  return {
+    issueId: issue.id,
+    issueKey: issue.idReadable,
+    issueSummary: issue.summary || '',
+    projectShortName: issue.project?.shortName || 'UNK'
+  };
+}
+
+/**
+ * Reads timer events from the comments the timer workflows add to the issue,
+ * requesting only comments added inside the range
+ */
+export class CommentTimerEventSource implements TimerEventSource {
+  readonly name: string;
+
+  constructor(private patterns: TimerCommentPatterns = PT_BR_TIMER_COMMENTS) {
+    this.name = `comments:${patterns.locale}`;
+  }
+
+  /**
+   * Parse one comment; null when it is not a timer comment
+   */
+  parseComment(text: string): Pick<TimerEvent, 'type' | 'workType' | 'duration' | 'durationMs' | 'reason'> | null {
+    const action = this.patterns.actions.find(candidate => candidate.match.test(text));
+    if (!action) return null;
+
+    const duration = action.type === 'timer_stopped' ? cleanMatch(text, this.patterns.duration) : undefined;
+    const carriesWorkType = action.type === 'timer_started' || action.type === 'timer_stopped';
+
+    return {
+      type: action.type,
+      workType: carriesWorkType ? cleanMatch(text, this.patterns.workType) : undefined,
+      duration,
+      durationMs: parseTimerDuration(duration),
+      reason: action.reason
+    };
+  }
+
+  async fetchEvents(range: TimerEventRange, context: TimerEventContext): Promise<TimerEvent[]> {
+    const activities = await context.fetchActivities<CommentActivity>({
+      categories: 'CommentsCategory',
+      fields: COMMENT_ACTIVITY_PROJECTION.fields,
+      issueQuery: issuesUpdatedIn(range),
+      range
+    });
+    const events: TimerEvent[] = [];
+
+    activities.forEach(activity => {
+      (Array.isArray(activity.added) ? activity.added as TimerComment[] : []).forEach(comment => {
+        const created = new Date(comment.created ?? activity.timestamp).getTime();
+        if (!comment.issue || created < range.since || created > range.until) return;
+
+        const parsed = this.parseComment(comment.text || '');
+        if (!parsed) return;
+
+        events.push({
+          id: `${comment.issue.id}-${comment.id}`,
+          created,
+          author: comment.author ? { login: comment.author.login, fullName: comment.author.fullName } : undefined,
+          ...issueInfo(comment.issue),
+          ...parsed,
+          source: this.name
+        });
+      });
+    });
+
+    return events;
+  }
+}
+
+/**
+ * Reads timer events that workflows append as a JSON array to a dedicated text field:
+ * `[{"id": "...", "type": "timer_stopped", "at": 1700000000000, "user": "login", "workType": "Development", "durationMs": 3900000}]`
+ */
+export class FieldTimerEventSource implements TimerEventSource {
+  readonly name: string;
+  private logger = Logger.getLogger('FieldTimerEventSource');
+
+  constructor(private fieldName: string = DEFAULT_TIMER_EVENTS_FIELD) {
+    this.name = `field:${fieldName}`;
+  }
+
+  async fetchEvents(range: TimerEventRange, context: TimerEventContext): Promise<TimerEvent[]> {
+    const query = compileQuery(q.and(q.has(this.fieldName), q.range('updated', new Date(range.since))));
+    const issues = await context.fetchIssues<FieldIssue>(query, FIELD_ISSUE_PROJECTION.fields);
+    const events: TimerEvent[] = [];
+
+    issues.forEach(issue => {
+      const field = issue.customFields?.find(candidate => candidate.name === this.fieldName);
+      const raw = typeof field?.value === 'string' ? field.value : field?.value?.text;
+      if (!raw) return;
+
+      let entries: unknown;
+      try {
+        entries = JSON.parse(raw);
+      } catch {
+        this.logger.warn('Unreadable timer events field', { issueId: issue.id, field: this.fieldName });
+        return;
+      }
+      if (!Array.isArray(entries)) return;
+
+      entries.forEach((entry: any, index: number) => {
+        const created = typeof entry?.at === 'number' ? entry.at : new Date(entry?.at ?? entry?.created).getTime();
+        if (!Number.isFinite(created) || created < range.since || created > range.until) return;
+
+        const login = entry.user || entry.login;
+        events.push({
+          id: `${issue.id}-${entry.id ?? `${created}-${index}`}`,
+          type: TIMER_EVENT_TYPES.includes(entry.type) ? entry.type : 'unknown',
+          created,
+          author: login ? { login, fullName: entry.fullName } : undefined,
+          ...issueInfo(issue),
+          workType: entry.workType || undefined,
+          duration: entry.duration || undefined,
+          durationMs: typeof entry.durationMs === 'number' ? entry.durationMs : parseTimerDuration(entry.duration),
+          reason: entry.reason || undefined,
+          source: this.name
+        });
+      });
+    });
+
+    return events;
+  }
+}
+
+// Comment and field change written by the same workflow run land within this window
+const SAME_ACTION_TOLERANCE_MS = 2 * 60 * 1000;
+
+function actionPhase(type: TimerEventType): 'start' | 'end' | null {
+  if (type === 'timer_started') return 'start';
+  if (type === 'timer_stopped' || type === 'timer_canceled' || type === 'timer_auto_canceled') return 'end';
+  return null;
+}
+
+// Later sources only fill what the first one lacks; a generic stop takes the more specific cancel type
+function fillTimerEvent(target: TimerEvent, other: TimerEvent): void {
+  if (target.type === 'timer_stopped' && other.type !== 'timer_stopped') {
+    target.type = other.type;
+    target.reason = target.reason ?? other.reason;
+  }
+  target.workType = target.workType ?? other.workType;
+  target.duration = target.duration ?? other.duration;
+  target.durationMs = target.durationMs ?? other.durationMs;
+  target.reason = target.reason ?? other.reason;
+  if (target.author && !target.author.fullName && other.author?.fullName) {
+    target.author = { ...target.author, fullName: other.author.fullName };
+  }
+}
+
+/**
+ * Merge events from several sources, newest first
+ * The first source listed wins on duplicate ids and on the same action seen by another source
+ * (same issue, user and start/end within a short window); the others fill its missing details
+ */
+export function mergeTimerEvents(batches: TimerEvent[][], toleranceMs: number = SAME_ACTION_TOLERANCE_MS): TimerEvent[] {
+  const byId = new Map<string, TimerEvent>();
+  const byAction = new Map<string, TimerEvent[]>();
+
+  batches.forEach(batch => batch.forEach(event => {
+    if (byId.has(event.id)) return;
+
+    const phase = actionPhase(event.type);
+    const actionKey = phase && event.author ? `${event.issueId}|${event.author.login}|${phase}` : null;
+    const twin = actionKey
+      ? byAction.get(actionKey)?.find(candidate =>
+        candidate.source !== event.source && Math.abs(candidate.created - event.created) <= toleranceMs)
+      : undefined;
+
+    if (twin) {
+      fillTimerEvent(twin, event);
+      return;
+    }
+
+    const merged = { ...event };
+    byId.set(event.id, merged);
+    if (actionKey) byAction.set(actionKey, [...(byAction.get(actionKey) || []), merged]);
+  }));
+
+  return Array.from(byId.values()).sort((a, b) => b.created - a.created);
+}
@@ -0,0 +1,45 @@
+/**
+ * Tests for timer entry filters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyFilterConfig, isStaleTimer } from './timerFilters';
+import { TimerEntry } from '../types';
+import { timerEntry } from '../test/fixtures';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 2, 11, 15);
+
+const entry = (id: string, extra: Partial<TimerEntry> = {}): TimerEntry =>
+  timerEntry({ id, issueKey: id, startTime: NOW - HOUR, elapsedMs: HOUR, wallElapsedMs: HOUR, lastUpdated: NOW, ...extra });
+
+const ids = (entries: TimerEntry[]) => entries.map(item => item.id);
+
+describe('isStaleTimer', () => {
+  it('should treat resolved issues and archived projects as stale', () => {
+    expect(isStaleTimer(entry('a', { issueResolved: NOW - HOUR }))).toBe(true);
+    expect(isStaleTimer(entry('b', { projectArchived: true }))).toBe(true);
+    expect(isStaleTimer(entry('c', { status: 'critical' }))).toBe(false);
+  });
+});
+
+describe('applyFilterConfig', () => {
+  const entries = [
+    entry('open'),
+    entry('resolved', { status: 'stale', issueResolved: NOW - HOUR }),
+    entry('archived', { projectArchived: true, projectShortName: 'OLD' }),
+    entry('bob', { username: 'bob', status: 'critical', startTime: NOW - 30 * HOUR })
+  ];
+
+  it('should hide stale timers only when hideCompleted is on', () => {
+    expect(ids(applyFilterConfig(entries, {}, NOW))).toEqual(['open', 'resolved', 'archived', 'bob']);
+    expect(ids(applyFilterConfig(entries, { hideCompleted: true }, NOW))).toEqual(['open', 'bob']);
+  });
+
+  it('should combine project, user, status and start time filters', () => {
+    expect(ids(applyFilterConfig(entries, { projects: ['OLD'] }, NOW))).toEqual(['archived']);
+    expect(ids(applyFilterConfig(entries, { users: ['bob'], statuses: ['critical'] }, NOW))).toEqual(['bob']);
+    expect(ids(applyFilterConfig(entries, { timeRange: { type: 'last_days', value: 1 } }, NOW))).toEqual(['open', 'resolved', 'archived']);
+    expect(ids(applyFilterConfig(entries, { timeRange: { type: 'custom', end: NOW - 2 * HOUR } }, NOW))).toEqual(['bob']);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Timer Filters
+ * Applies the widget FilterConfig to processed timer entries
+ */
+
+import { FilterConfig, TimerEntry } from '../types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Whether a timer belongs to a resolved issue or an archived project
+ */
+export function isStaleTimer(entry: TimerEntry): boolean {
+  return entry.status === 'stale' || Boolean(entry.issueResolved) || Boolean(entry.projectArchived);
+}
+
+/**
+ * Whether a timer started inside the filter time range
+ */
+function startedInTimeRange(entry: TimerEntry, timeRange: NonNullable<FilterConfig['timeRange']>, now: number): boolean {
+  switch (timeRange.type) {
+    case 'last_hours':
+      return !timeRange.value || entry.startTime >= now - timeRange.value * MS_PER_HOUR;
+    case 'last_days':
+      return !timeRange.value || entry.startTime >= now - timeRange.value * 24 * MS_PER_HOUR;
+    case 'custom':
+      return (!timeRange.start || entry.startTime >= timeRange.start) && (!timeRange.end || entry.startTime <= timeRange.end);
+  }
+}
+
+/**
+ * Filter timer entries by project, user, status, start time and completion
+ * The issue search already narrows projects and time range (see filterConfigToQuery);
+ * users and statuses only exist inside the timer data, so they are filtered here
+ */
+export function applyFilterConfig(entries: TimerEntry[], filter: FilterConfig = {}, now: number = Date.now()): TimerEntry[] {
+  return entries.filter(entry => {
+    if (filter.timeRange && !startedInTimeRange(entry, filter.timeRange, now)) return false;
+    if (filter.hideCompleted && isStaleTimer(entry)) return false;
+    if (filter.projects?.length && !filter.projects.includes(entry.projectShortName)) return false;
+    if (filter.users?.length && !filter.users.includes(entry.username)) return false;
+    if (filter.statuses?.length && !filter.statuses.includes(entry.status)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for Timer Hash Data parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTimerHashData, parseTimestamp } from './timerHashParser';
+
+const NOW = Date.UTC(2024, 0, 15, 12);
+const START = Date.UTC(2024, 0, 15, 9);
+const context = { issueId: '2-1', issueKey: 'BP-1', now: NOW };
+
+describe('parseTimestamp', () => {
+  it('should accept Unix seconds, Unix milliseconds and ISO strings', () => {
+    expect(parseTimestamp(START / 1000)).toBe(START);
+    expect(parseTimestamp(String(START / 1000))).toBe(START);
+    expect(parseTimestamp(String(START))).toBe(START);
+    expect(parseTimestamp('2024-01-15T09:00:00Z')).toBe(START);
+  });
+
+  it('should reject values that are not timestamps', () => {
+    expect(parseTimestamp('yesterday')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp(true)).toBeNull();
+    expect(parseTimestamp(NaN)).toBeNull();
+  });
+});
+
+describe('parseTimerHashData', () => {
+  it('should parse flat v1 maps with mixed timestamp formats', () => {
+    const result = parseTimerHashData(
+      JSON.stringify({ alice: String(START), bob: START / 1000, carol: '2024-01-15T09:00:00Z' }),
+      context
+    );
+
+    expect(result.version).toBe(1);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.timers.map(timer => timer.startTime)).toEqual([START, START, START]);
+  });
+
+  it('should parse nested payloads and envelopes', () => {
+    const result = parseTimerHashData({
+      version: 2,
+      timers: { alice: { start: START, workType: ' Development ', paused: true } }
+    }, context);
+
+    expect(result.version).toBe(2);
+    expect(result.timers).toHaveLength(1);
+    expect(result.timers[0]).toMatchObject({ username: 'alice', startTime: START, workType: 'Development', paused: true });
+  });
+
+  it('should parse pause segments and derive the paused state', () => {
+    const HOUR = 60 * 60 * 1000;
+    const result = parseTimerHashData({
+      alice: { segments: [{ start: START + HOUR, end: START + 2 * HOUR }, { start: START, end: START + HOUR / 2 }] },
+      bob: { start: START, paused: true, pausedAt: START + HOUR },
+      carol: { segments: [{ start: START }, { start: START + HOUR }] }
+    }, context);
+
+    expect(result.timers[0]).toMatchObject({ username: 'alice', startTime: START, paused: true });
+    expect(result.timers[0].segments.map(segment => segment.start)).toEqual([START, START + HOUR]);
+    expect(result.timers[1]).toMatchObject({ paused: true, segments: [{ start: START, end: START + HOUR }] });
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual(['INVALID_SEGMENT']);
+  });
+
+  it('should reject overlapping segments', () => {
+    const HOUR = 60 * 60 * 1000;
+    const result = parseTimerHashData({
+      alice: { segments: [{ start: START, end: START + 2 * HOUR }, { start: START + HOUR, end: START + 3 * HOUR }] }
+    }, context);
+
+    expect(result.timers).toEqual([]);
+    expect(result.diagnostics[0]).toMatchObject({ code: 'INVALID_SEGMENT', username: 'alice' });
+  });
+
+  it('should stop paused timers without a pause time at their last known resume', () => {
+    const HOUR = 60 * 60 * 1000;
+    const result = parseTimerHashData({
+      alice: { start: START, paused: true },
+      bob: { paused: true, pausedAt: 'unknown', segments: [{ start: START, end: START + HOUR }, { start: START + 2 * HOUR }] }
+    }, context);
+
+    expect(result.timers[0]).toMatchObject({ paused: true, segments: [{ start: START, end: START }] });
+    expect(result.timers[1].segments).toEqual([{ start: START, end: START + HOUR }, { start: START + 2 * HOUR, end: START + 2 * HOUR }]);
+    expect(result.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.username])).toEqual([
+      ['MISSING_PAUSE_TIME', 'alice'],
+      ['MISSING_PAUSE_TIME', 'bob']
+    ]);
+  });
+
+  it('should keep valid entries and report rejected ones', () => {
+    const result = parseTimerHashData(JSON.stringify({
+      alice: String(START),
+      bob: 'not a date',
+      carol: { workType: 'Testing' },
+      dave: String(NOW + 7 * 24 * 60 * 60 * 1000),
+      '': String(START)
+    }), context);
+
+    expect(result.timers.map(timer => timer.username)).toEqual(['alice']);
+    expect(result.diagnostics.map(diagnostic => diagnostic.code)).toEqual([
+      'INVALID_TIMESTAMP',
+      'MISSING_START',
+      'TIMESTAMP_OUT_OF_RANGE',
+      'EMPTY_USERNAME'
+    ]);
+    expect(result.diagnostics[0]).toMatchObject({ issueKey: 'BP-1', username: 'bob', rawValue: 'not a date' });
+  });
+
+  it('should report invalid JSON and unsupported versions', () => {
+    expect(parseTimerHashData('{alice:', context).diagnostics[0].code).toBe('INVALID_JSON');
+    expect(parseTimerHashData('[1,2]', context).diagnostics[0].code).toBe('INVALID_ROOT');
+    expect(parseTimerHashData({ version: 9, timers: {} }, context).diagnostics[0].code).toBe('UNSUPPORTED_VERSION');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Timer Hash Data Parser
+ * Parses the "Timer Hash Data" custom field into timers, reporting every rejected value as a diagnostic
+ *
+ * Supported schemas:
+ * - v1: flat map `{ "login": "<unix seconds | unix ms | ISO string>" }`
+ * - v2: map of nested payloads `{ "login": { "start": ..., "workType": "...", "paused": false } }`,
+ *   optionally wrapped in an envelope `{ "version": 2, "timers": { ... } }`
+ *   Payloads may carry `segments: [{ start, end }]` (start/pause/resume), `pausedAt` and the account `userId`
+ */
+
+import {
+  ParsedTimer,
+  TimerSegment,
+  TimerHashData,
+  TimerHashPayload,
+  TimerParseDiagnostic,
+  TimerParseDiagnosticCode
+} from '../types';
+
+export const TIMER_HASH_SCHEMA_VERSION = 2;
+
+// Numbers below this are treated as Unix seconds (1e11 ms is March 1973, 1e11 s is year 5138)
+const SECONDS_THRESHOLD = 1e11;
+
+// Plausible timestamp window: from 2000-01-01 up to one day in the future (clock skew tolerance)
+const MIN_TIMESTAMP_MS = Date.UTC(2000, 0, 1);
+const MAX_FUTURE_SKEW_MS = 24 * 60 * 60 * 1000;
+
+const MAX_RAW_VALUE_LENGTH = 120;
+
+export interface TimerHashParseContext {
+  issueId: string;
+  issueKey?: string;
+  now?: number;
+}
+
+export interface TimerHashParseResult {
+  version: number;
+  timerHashData: TimerHashData;
+  timers: ParsedTimer[];
+  diagnostics: TimerParseDiagnostic[];
+}
+
+/**
+ * Truncate a raw value for display in diagnostics
+ */
+function describeRawValue(value: unknown): string {
+  let text: string;
+  try {
+    text = typeof value === 'string' ? value : JSON.stringify(value);
+  } catch {
+    text = String(value);
+  }
+
+  if (text === undefined) {
+    text = String(value);
+  }
+
+  return text.length > MAX_RAW_VALUE_LENGTH ? `${text.slice(0, MAX_RAW_VALUE_LENGTH)}…` : text;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a timestamp in Unix seconds, Unix milliseconds or ISO 8601 format to milliseconds
+ * Returns null when the value cannot be interpreted as a timestamp
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return null;
+    return Math.round(Math.abs(value) < SECONDS_THRESHOLD ? value * 1000 : value);
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return parseTimestamp(Number(trimmed));
+  }
+
+  const parsed = Date.parse(trimmed);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse the running segments of a nested payload
+ * Returns an error message when a segment is invalid
+ */
+function parseSegments(rawSegments: unknown): { segments: TimerSegment[] } | { error: string } {
+  if (!Array.isArray(rawSegments)) {
+    return { error: '"segments" must be an array' };
+  }
+
+  const segments: TimerSegment[] = [];
+  for (const rawSegment of rawSegments) {
+    if (!isPlainObject(rawSegment)) {
+      return { error: 'Segment must be an object with "start" and optional "end"' };
+    }
+
+    const start = parseTimestamp(rawSegment.start);
+    const hasEnd = rawSegment.end !== undefined && rawSegment.end !== null && rawSegment.end !== '';
+    const end = hasEnd ? parseTimestamp(rawSegment.end) : undefined;
+
+    if (start === null || end === null) {
+      return { error: 'Segment has an invalid timestamp' };
+    }
+    if (end !== undefined && end < start) {
+      return { error: 'Segment ends before it starts' };
+    }
+
+    segments.push(end !== undefined ? { start, end } : { start });
+  }
+
+  segments.sort((a, b) => a.start - b.start);
+
+  // Only the last segment may still be running, and segments must not overlap
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segmentEnd = segments[i].end;
+    if (segmentEnd === undefined || segmentEnd > segments[i + 1].start) {
+      return { error: 'Segments overlap or an earlier segment is still open' };
+    }
+  }
+
+  return { segments };
+}
+
+/**
+ * Parse the raw field value (JSON string or already decoded object)
+ */
+export function parseTimerHashData(rawValue: unknown, context: TimerHashParseContext): TimerHashParseResult {
+  const now = context.now ?? Date.now();
+  const diagnostics: TimerParseDiagnostic[] = [];
+  const timers: ParsedTimer[] = [];
+
+  const report = (code: TimerParseDiagnosticCode, message: string, value: unknown, username?: string) => {
+    diagnostics.push({
+      issueId: context.issueId,
+      issueKey: context.issueKey,
+      username,
+      code,
+      message,
+      rawValue: describeRawValue(value)
+    });
+  };
+
+  const emptyResult = (): TimerHashParseResult => ({
+    version: TIMER_HASH_SCHEMA_VERSION,
+    timerHashData: {},
+    timers,
+    diagnostics
+  });
+
+  let decoded: unknown = rawValue;
+  if (typeof rawValue === 'string') {
+    if (!rawValue.trim()) {
+      return emptyResult();
+    }
+
+    try {
+      decoded = JSON.parse(rawValue);
+    } catch (error) {
+      report('INVALID_JSON', `Invalid JSON: ${(error as Error).message}`, rawValue);
+      return emptyResult();
+    }
+  }
+
+  if (!isPlainObject(decoded)) {
+    report('INVALID_ROOT', 'Timer Hash Data must be an object keyed by username', decoded);
+    return emptyResult();
+  }
+
+  // Envelope format: { version, timers }
+  let version = 1;
+  let entries: Record<string, unknown> = decoded;
+  if ('version' in decoded && 'timers' in decoded) {
+    const declaredVersion = Number(decoded.version);
+    if (!Number.isInteger(declaredVersion) || declaredVersion < 1 || declaredVersion > TIMER_HASH_SCHEMA_VERSION) {
+      report('UNSUPPORTED_VERSION', `Unsupported schema version: ${String(decoded.version)}`, decoded);
+      return emptyResult();
+    }
+    if (!isPlainObject(decoded.timers)) {
+      report('INVALID_ROOT', 'Envelope "timers" must be an object keyed by username', decoded.timers);
+      return emptyResult();
+    }
+
+    version = declaredVersion;
+    entries = decoded.timers;
+  }
+
+  const timerHashData: TimerHashData = {};
+
+  Object.entries(entries).forEach(([key, value]) => {
+    const username = key.trim();
+    if (!username) {
+      report('EMPTY_USERNAME', 'Timer entry has an empty username', value);
+      return;
+    }
+
+    let payload: TimerHashPayload | undefined;
+    let rawStart: unknown = value;
+    let segments: TimerSegment[] | undefined;
+
+    if (isPlainObject(value)) {
+      version = Math.max(version, 2);
+      payload = value as TimerHashPayload;
+
+      if (value.segments !== undefined) {
+        const parsedSegments = parseSegments(value.segments);
+        if ('error' in parsedSegments) {
+          report('INVALID_SEGMENT', parsedSegments.error, value, username);
+          return;
+        }
+        if (parsedSegments.segments.length > 0) {
+          segments = parsedSegments.segments;
+        }
+      }
+
+      if (value.start !== undefined && value.start !== null && value.start !== '') {
+        rawStart = value.start;
+      } else if (segments) {
+        rawStart = segments[0].start;
+      } else {
+        report('MISSING_START', 'Nested payload has no "start" timestamp', value, username);
+        return;
+      }
+    } else if (typeof value !== 'string' && typeof value !== 'number') {
+      report('INVALID_ENTRY', `Unexpected value type: ${value === null ? 'null' : typeof value}`, value, username);
+      return;
+    }
+
+    const startTime = parseTimestamp(rawStart);
+    if (startTime === null) {
+      report('INVALID_TIMESTAMP', 'Value is not a Unix timestamp or ISO date', value, username);
+      return;
+    }
+
+    if (startTime < MIN_TIMESTAMP_MS || startTime > now + MAX_FUTURE_SKEW_MS) {
+      report('TIMESTAMP_OUT_OF_RANGE', `Timestamp out of range: ${String(rawStart)}`, value, username);
+      return;
+    }
+
+    // A timer is paused when flagged so, or when every segment is closed
+    const lastSegment = segments?.[segments.length - 1];
+    const paused = payload?.paused === true || (lastSegment !== undefined && lastSegment.end !== undefined);
+
+    // Flagged as paused with the running segment still open: close it at `pausedAt`, or, without
+    // a usable one, at its own start so a timer that is not running never accrues time up to now
+    // (backend.js applies the same rule; both sides run PAUSED_TIMERS_FIXTURE in their tests)
+    const openStart = !segments ? startTime : lastSegment.end === undefined ? lastSegment.start : null;
+    if (!segments) {
+      segments = [{ start: startTime }];
+    }
+    if (paused && openStart !== null) {
+      const pausedAt = parseTimestamp(payload?.pausedAt);
+      const pauseKnown = pausedAt !== null && pausedAt >= openStart;
+      if (!pauseKnown) {
+        report('MISSING_PAUSE_TIME', 'Paused timer has no valid "pausedAt"; its last running segment is not counted', value, username);
+      }
+      segments[segments.length - 1] = { start: openStart, end: pauseKnown ? pausedAt : openStart };
+    }
+
+    timerHashData[username] = value as TimerHashData[string];
+    timers.push({
+      username,
+      startTime,
+      userId: typeof payload?.userId === 'string' && payload.userId ? payload.userId : undefined,
+      workType: typeof payload?.workType === 'string' && payload.workType.trim() ? payload.workType.trim() : undefined,
+      paused: paused || undefined,
+      segments,
+      payload
+    });
+  });
+
+  return { version, timerHashData, timers, diagnostics };
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for the Timer Hash Data history reconstruction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reconstructTimerHistory, TimerHashActivity } from './timerHistory';
+import { mergeTimerEvents } from './timerEvents';
+import { TimerEvent } from '../types';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2024, 2, 10, 9, 0, 0);
+const at = (minutes: number) => T0 + minutes * MINUTE;
+const issue = { id: '2-1', idReadable: 'ABC-1', summary: 'Login page', project: { shortName: 'ABC' } };
+
+const change = (id: string, timestamp: number, removed: unknown, added: unknown, author = 'alice'): TimerHashActivity => ({
+  id,
+  timestamp,
+  author: { login: author, fullName: author.toUpperCase() },
+  target: issue,
+  field: { name: 'Timer Hash Data', presentation: 'Timer Hash Data' },
+  removed: removed === null ? null : JSON.stringify(removed),
+  added: added === null ? null : JSON.stringify(added)
+} as TimerHashActivity);
+
+describe('reconstructTimerHistory', () => {
+  it('should rebuild start/stop intervals per user from successive values', () => {
+    const { intervals, events } = reconstructTimerHistory([
+      // Out of order on purpose: changes are replayed by timestamp
+      change('a2', at(10), { alice: String(T0), bob: String(at(5)) }, { bob: String(at(5)) }, 'bob'),
+      change('a1', at(5), { alice: String(T0) }, { alice: String(T0), bob: String(at(5)) }, 'bob'),
+      change('a0', T0, null, { alice: String(T0) })
+    ]);
+
+    expect(intervals).toEqual([
+      { issueId: '2-1', issueKey: 'ABC-1', username: 'alice', start: T0, end: at(10), workType: undefined },
+      { issueId: '2-1', issueKey: 'ABC-1', username: 'bob', start: at(5), workType: undefined }
+    ]);
+    // Stopped by another user's change, without any comment
+    expect(events.find(event => event.type === 'timer_stopped')).toMatchObject({
+      author: { login: 'alice', fullName: undefined },
+      durationMs: 10 * MINUTE,
+      duration: '10min',
+      issueKey: 'ABC-1'
+    });
+  });
+
+  it('should treat a new start time as a restart and keep paused time out of durations', () => {
+    const paused = { version: 2, timers: { alice: { start: T0, segments: [{ start: T0, end: at(20) }, { start: at(50) }] } } };
+
+    const { intervals, events } = reconstructTimerHistory([
+      change('b1', at(60), paused, { alice: String(at(60)) })
+    ]);
+
+    expect(intervals.map(interval => [interval.start, interval.end])).toEqual([[T0, at(60)], [at(60), undefined]]);
+    expect(events.map(event => [event.type, event.durationMs])).toEqual([['timer_stopped', 30 * MINUTE], ['timer_started', undefined]]);
+  });
+
+  it('should ignore changes to other fields', () => {
+    const other = { ...change('c1', T0, null, { alice: String(T0) }), field: { name: 'State', presentation: 'State' } };
+    expect(reconstructTimerHistory([other]).events).toEqual([]);
+  });
+});
+
+describe('merging history with comment events', () => {
+  it('should keep exact history times and take work type and cancel reason from comments', () => {
+    const { events: history } = reconstructTimerHistory([
+      change('d0', T0, null, { alice: String(T0) }),
+      change('d1', at(90), { alice: String(T0) }, null)
+    ]);
+    const comment = (id: string, type: TimerEvent['type'], created: number, extra: Partial<TimerEvent>) =>
+      ({ id, type, created, author: { login: 'alice', fullName: 'Alice' }, issueId: '2-1', source: 'comments:pt-BR', ...extra } as TimerEvent);
+
+    const merged = mergeTimerEvents([history, [
+      comment('2-1-c1', 'timer_started', T0 + 30 * 1000, { workType: 'Development' }),
+      comment('2-1-c2', 'timer_auto_canceled', at(90) + 1000, { reason: '8+ horas consecutivas' })
+    ]]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ type: 'timer_auto_canceled', created: at(90), durationMs: 90 * MINUTE, reason: '8+ horas consecutivas' });
+    expect(merged[1]).toMatchObject({ type: 'timer_started', created: T0, workType: 'Development', author: { login: 'alice', fullName: 'ALICE' } });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Timer History
+ * Rebuilds timer runs from the activity stream of the "Timer Hash Data" field: every start and stop
+ * is a change to that field, so diffing successive values gives exact intervals per user,
+ * including timers stopped without a workflow comment
+ */
+
+import {
+  ParsedTimer,
+  TimerEvent,
+  TimerEventContext,
+  TimerEventRange,
+  TimerEventSource,
+  TimerInterval,
+  YouTrackActivityItem
+} from '../types';
+import { parseTimerHashData } from './timerHashParser';
+import { projection, ProjectionResult } from './projection';
+import { compileQuery, q } from './youtrackQuery';
+import { formatTimerDuration } from './timerEvents';
+
+export const TIMER_HASH_FIELD = 'Timer Hash Data';
+export const ACTIVITY_EVENT_SOURCE = `activities:${TIMER_HASH_FIELD}`;
+
+const TIMER_HASH_ACTIVITY_PROJECTION = projection<YouTrackActivityItem>()({
+  id: true,
+  timestamp: true,
+  author: { login: true, fullName: true },
+  target: { id: true, idReadable: true, summary: true, project: { shortName: true } },
+  field: { name: true, presentation: true },
+  added: true,
+  removed: true
+});
+
+export type TimerHashActivity = ProjectionResult<typeof TIMER_HASH_ACTIVITY_PROJECTION>;
+
+/**
+ * Intervals and start/stop events rebuilt from a set of field changes
+ */
+export interface TimerHistory {
+  intervals: TimerInterval[];
+  events: TimerEvent[];
+}
+
+// Text field values come as a string, or wrapped as { text } / [value] depending on the field type
+function activityValue(value: unknown): unknown {
+  if (Array.isArray(value)) return activityValue(value[0]);
+  if (value && typeof value === 'object' && 'text' in value) return (value as { text: unknown }).text;
+  return value ?? null;
+}
+
+function timersByUser(value: unknown, issueId: string, issueKey: string, now: number): Map<string, ParsedTimer> {
+  const raw = activityValue(value);
+  const timers = raw === null ? [] : parseTimerHashData(raw, { issueId, issueKey, now }).timers;
+  return new Map(timers.map(timer => [timer.username, timer]));
+}
+
+// Running time only: paused segments are left out, open segments end at the stop
+function runningMs(timer: ParsedTimer, end: number): number {
+  const segments = timer.segments?.length ? timer.segments : [{ start: timer.startTime }];
+  return segments.reduce((sum, segment) => sum + Math.max(0, Math.min(segment.end ?? end, end) - segment.start), 0);
+}
+
+function isTimerHashChange(activity: TimerHashActivity): boolean {
+  return activity.field?.name === TIMER_HASH_FIELD || activity.field?.presentation === TIMER_HASH_FIELD;
+}
+
+/**
+ * Diff successive Timer Hash Data values of each issue into intervals and events
+ * A user appearing starts a run, disappearing stops it, and a new start time stops and restarts it
+ */
+export function reconstructTimerHistory(activities: TimerHashActivity[], source: string = ACTIVITY_EVENT_SOURCE): TimerHistory {
+  const intervals: TimerInterval[] = [];
+  const events: TimerEvent[] = [];
+  const open = new Map<string, TimerInterval>();
+
+  const changes = activities
+    .filter(activity => activity.target?.id && isTimerHashChange(activity))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  changes.forEach(activity => {
+    const issue = activity.target!;
+    const issueKey = issue.idReadable || issue.id;
+    const before = timersByUser(activity.removed, issue.id, issueKey, activity.timestamp);
+    const after = timersByUser(activity.added, issue.id, issueKey, activity.timestamp);
+
+    const event = (username: string, type: 'timer_started' | 'timer_stopped', timer: ParsedTimer, durationMs?: number): TimerEvent => ({
+      id: `${issue.id}-${activity.id}-${username}-${type === 'timer_started' ? 'start' : 'stop'}`,
+      type,
+      created: activity.timestamp,
+      author: { login: username, fullName: activity.author?.login === username ? activity.author.fullName : undefined },
+      issueId: issue.id,
+      issueKey,
+      issueSummary: issue.summary || '',
+      projectShortName: issue.project?.shortName || 'UNK',
+      workType: timer.workType,
+      duration: durationMs !== undefined ? formatTimerDuration(durationMs) : undefined,
+      durationMs,
+      source
+    });
+
+    const stop = (username: string, timer: ParsedTimer) => {
+      const key = `${issue.id}|${username}`;
+      const interval = open.get(key) || { issueId: issue.id, issueKey, username, start: timer.startTime, workType: timer.workType };
+      interval.end = activity.timestamp;
+      if (!open.has(key)) intervals.push(interval);
+      open.delete(key);
+      events.push(event(username, 'timer_stopped', timer, runningMs(timer, activity.timestamp)));
+    };
+
+    const start = (username: string, timer: ParsedTimer) => {
+      const interval: TimerInterval = { issueId: issue.id, issueKey, username, start: timer.startTime, workType: timer.workType };
+      open.set(`${issue.id}|${username}`, interval);
+      intervals.push(interval);
+      events.push(event(username, 'timer_started', timer));
+    };
+
+    before.forEach((timer, username) => {
+      const next = after.get(username);
+      if (!next || next.startTime !== timer.startTime) stop(username, timer);
+    });
+
+    after.forEach((timer, username) => {
+      const previous = before.get(username);
+      if (!previous || previous.startTime !== timer.startTime) start(username, timer);
+    });
+  });
+
+  return { intervals, events };
+}
+
+/**
+ * Timer events rebuilt from the Timer Hash Data activity stream
+ */
+export class ActivityTimerEventSource implements TimerEventSource {
+  readonly name = ACTIVITY_EVENT_SOURCE;
+
+  async fetchHistory(range: TimerEventRange, context: TimerEventContext): Promise<TimerHistory> {
+    const activities = await context.fetchActivities<TimerHashActivity>({
+      categories: 'CustomFieldCategory',
+      fields: TIMER_HASH_ACTIVITY_PROJECTION.fields,
+      issueQuery: compileQuery(q.range('updated', new Date(range.since))),
+      range
+    });
+
+    return reconstructTimerHistory(activities, this.name);
+  }
+
+  async fetchEvents(range: TimerEventRange, context: TimerEventContext): Promise<TimerEvent[]> {
+    const { events } = await this.fetchHistory(range, context);
+    return events.filter(event => event.created >= range.since && event.created <= range.until);
+  }
+}
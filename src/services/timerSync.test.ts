@@ -0,0 +1,66 @@
+/**
+ * Tests for incremental timer sync
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TZDate } from '@date-fns/tz';
+import { buildUpdatedSinceQuery, TimerSyncState } from './timerSync';
+import { q } from './youtrackQuery';
+import { IssueWithTimer } from '../types';
+
+const MINUTE = 60 * 1000;
+
+const issue = (id: string, updated: number) => ({ id, updated } as IssueWithTimer);
+
+describe('TimerSyncState', () => {
+  it('should require a full sync first, on scope change and after the reconcile interval', () => {
+    const state = new TimerSyncState({ reconcileIntervalMs: 10 * MINUTE, overlapMs: MINUTE });
+    expect(state.needsFullSync('scope', 0)).toBe(true);
+
+    state.replace('scope', [issue('1', 100)], 1000);
+
+    expect(state.needsFullSync('scope', 1000 + 5 * MINUTE)).toBe(false);
+    expect(state.needsFullSync('other', 1000 + 5 * MINUTE)).toBe(true);
+    expect(state.needsFullSync('scope', 1000 + 10 * MINUTE)).toBe(true);
+  });
+
+  it('should upsert changed issues, drop the ones without timers and advance the watermark', () => {
+    const state = new TimerSyncState();
+    state.replace('scope', [issue('1', 100), issue('2', 200)], 50);
+
+    const result = state.merge(
+      [issue('2', 300), issue('3', 400), issue('4', 250)],
+      [issue('3', 400)],
+      350
+    );
+
+    expect(result).toEqual({ upserted: 1, removed: 1 });
+    expect(state.getIssues().map(entry => entry.id).sort()).toEqual(['1', '3']);
+    expect(state.getWatermark()).toBe(400);
+  });
+
+  it('should only query updates since an empty full sync started', () => {
+    const state = new TimerSyncState();
+    const startedAt = Date.UTC(2024, 2, 10, 15, 30);
+    state.replace('scope', [], startedAt);
+
+    expect(state.getWatermark()).toBe(startedAt);
+    expect(buildUpdatedSinceQuery(q.field('project', 'ABC'), state.getWatermark(), MINUTE, 'UTC'))
+      .toBe('project: ABC updated: 2024-03-10T15:29:00 .. *');
+
+    // Nothing changed: the next incremental sync still starts from its own start time
+    state.merge([], [], startedAt + 5 * MINUTE);
+    expect(state.getWatermark()).toBe(startedAt + 5 * MINUTE);
+  });
+});
+
+describe('buildUpdatedSinceQuery', () => {
+  it('should append an open updated range that starts before the watermark, in the profile time zone', () => {
+    const watermark = new TZDate(2024, 2, 10, 12, 30, 0, 'America/Sao_Paulo').getTime();
+
+    expect(buildUpdatedSinceQuery(q.field('project', 'ABC'), watermark, MINUTE, 'America/Sao_Paulo'))
+      .toBe('project: ABC updated: 2024-03-10T12:29:00 .. *');
+    expect(buildUpdatedSinceQuery(q.field('project', 'ABC'), watermark, MINUTE, 'Asia/Tokyo'))
+      .toBe('project: ABC updated: 2024-03-11T00:29:00 .. *');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Timer Sync
+ * Keeps a local snapshot of issues with timers and refreshes it incrementally,
+ * querying only issues whose `updated` timestamp moved past the last value seen
+ */
+
+import { TZDate } from '@date-fns/tz';
+import { IssueWithTimer, TimerSyncConfig } from '../types';
+import { compileQuery, q, QueryNode } from './youtrackQuery';
+
+/**
+ * Default sync settings
+ */
+export const DEFAULT_TIMER_SYNC: TimerSyncConfig = {
+  reconcileIntervalMs: 10 * 60 * 1000,
+  overlapMs: 60 * 1000
+};
+
+/**
+ * Restrict a query to issues updated since the watermark
+ * The overlap re-reads a short window so second rounding and clock skew never lose an update.
+ * YouTrack reads the date in the user's profile time zone, so it is written in `timeZone` (browser zone when missing)
+ */
+export function buildUpdatedSinceQuery(scope: QueryNode, watermark: number, overlapMs: number, timeZone?: string): string {
+  const since = Math.max(0, watermark - overlapMs);
+  return compileQuery(q.and(scope, q.range('updated', timeZone ? new TZDate(since, timeZone) : new Date(since))));
+}
+
+/**
+ * Snapshot of issues with timers for one query scope
+ */
+export class TimerSyncState {
+  private issues = new Map<string, IssueWithTimer>();
+  private scope: string | null = null;
+  private watermark = 0;
+  private lastFullSync = 0;
+
+  constructor(private config: TimerSyncConfig = DEFAULT_TIMER_SYNC) {}
+
+  /**
+   * A full sync is needed on first use, when the scope changes and once the reconcile interval expires
+   */
+  needsFullSync(scope: string, now: number = Date.now()): boolean {
+    return this.scope !== scope ||
+      this.lastFullSync === 0 ||
+      now - this.lastFullSync >= this.config.reconcileIntervalMs;
+  }
+
+  getWatermark(): number {
+    return this.watermark;
+  }
+
+  getIssues(): IssueWithTimer[] {
+    return Array.from(this.issues.values());
+  }
+
+  /**
+   * Replace the snapshot with the result of a full sync started at `now` (drops issues that no longer match)
+   * The sync saw every update made before it started, even when no issue matched
+   */
+  replace(scope: string, issues: IssueWithTimer[], now: number = Date.now()): void {
+    this.scope = scope;
+    this.lastFullSync = now;
+    this.issues = new Map(issues.map(issue => [issue.id, issue]));
+    this.watermark = issues.reduce((max, issue) => Math.max(max, issue.updated || 0), now);
+  }
+
+  /**
+   * Merge an incremental sync started at `now`
+   * `changed` lists every issue updated since the watermark; the ones missing from `withTimers`
+   * no longer carry timer data and are removed from the snapshot
+   */
+  merge(
+    changed: Array<{ id: string; updated?: number }>,
+    withTimers: IssueWithTimer[],
+    now: number = Date.now()
+  ): { upserted: number; removed: number } {
+    const timerIds = new Set(withTimers.map(issue => issue.id));
+    let removed = 0;
+
+    this.watermark = Math.max(this.watermark, now);
+
+    changed.forEach(issue => {
+      this.watermark = Math.max(this.watermark, issue.updated || 0);
+      if (!timerIds.has(issue.id) && this.issues.delete(issue.id)) {
+        removed++;
+      }
+    });
+
+    withTimers.forEach(issue => this.issues.set(issue.id, issue));
+
+    return { upserted: withTimers.length, removed };
+  }
+
+  reset(): void {
+    this.issues.clear();
+    this.scope = null;
+    this.watermark = 0;
+    this.lastFullSync = 0;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for API transports and HTTP error mapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FixtureTransport, HostTransport, mapHttpError } from './transport';
+import { YouTrackAPI } from './api';
+import { ApiError, NetworkError, PermissionError } from './errorHandler';
+
+const offlineClient = (transport: FixtureTransport, host?: any) => new YouTrackAPI(host, {
+  timeout: 1000,
+  maxRetries: 0,
+  rateLimit: { maxRequests: 100, windowMs: 1000 },
+  cache: { enabled: false, defaultTtl: 0 },
+  transport
+});
+
+describe('mapHttpError', () => {
+  it('should map status codes to structured errors', () => {
+    expect(mapHttpError(403, undefined)).toBeInstanceOf(PermissionError);
+    expect(mapHttpError(404, undefined)).toMatchObject({ code: 'NOT_FOUND' });
+    expect(mapHttpError(429, undefined, { retryAfterMs: 2000 })).toMatchObject({
+      code: 'RATE_LIMITED',
+      details: { status: 429, retryAfterMs: 2000 }
+    });
+    expect(mapHttpError(503, undefined)).toBeInstanceOf(NetworkError);
+    expect(mapHttpError(500, 'boom')).toBeInstanceOf(ApiError);
+  });
+});
+
+describe('FixtureTransport', () => {
+  it('should serve the client offline from recorded responses', async () => {
+    const transport = new FixtureTransport([
+      { endpoint: 'admin/timeTrackingSettings/workItemTypes?fields=id,name', data: [{ id: '1', name: 'Development' }] }
+    ]);
+
+    await expect(offlineClient(transport).fetchWorkItemTypes()).resolves.toEqual([{ id: '1', name: 'Development' }]);
+  });
+
+  it('should replay error statuses as structured errors', async () => {
+    const transport = new FixtureTransport([
+      { endpoint: 'admin/timeTrackingSettings/workItemTypes?fields=id,name', status: 403 }
+    ]);
+
+    await expect(offlineClient(transport).fetchWorkItemTypes()).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+  });
+});
+
+describe('HostTransport', () => {
+  it('should map host HTTP errors by status instead of message text', async () => {
+    const transport = new HostTransport({
+      fetchYouTrack: () => Promise.reject(Object.assign(new Error('Request failed'), { status: 404, data: {} }))
+    });
+
+    await expect(transport.request({ endpoint: 'issues/1', method: 'GET', timeout: 1000 }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', details: { status: 404, transport: 'host' } });
+  });
+});
+
+describe('AppBackendTransport', () => {
+  it('should fetch backend aggregates and report a missing backend as null', async () => {
+    const aggregates = { workItems: { count: 2 }, generatedAt: 1 };
+    const requests: string[] = [];
+    const host = {
+      fetchApp: async (url: string) => {
+        requests.push(url);
+        return { data: aggregates, meta: {} };
+      }
+    };
+
+    await expect(offlineClient(new FixtureTransport(), host).fetchBackendAnalytics({ from: 0, to: 60000 }))
+      .resolves.toEqual(aggregates);
+    expect(requests[0]).toMatch(/^backend\/analytics\?from=0&to=60000&/);
+    await expect(offlineClient(new FixtureTransport()).fetchBackendAnalytics({ from: 0, to: 60000 })).resolves.toBeNull();
+  });
+});
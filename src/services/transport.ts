@@ -0,0 +1,376 @@
+/**
+ * Transports
+ * How YouTrackAPI reaches the server: widget host, token-based REST, the app backend or recorded fixtures.
+ * Every transport maps HTTP status codes to structured errors the same way
+ */
+
+import { AppError, Transport, TransportRequest, TransportResponse } from '../types';
+import { EnvironmentConfig } from '../config/environment';
+import { CacheKeyGenerator } from './cache';
+import { createError } from './errorHandler';
+import { parseRetryAfter } from './rateLimiter';
+
+/**
+ * Normalized key of an endpoint: path plus query parameters in a stable order
+ */
+export function endpointKey(endpoint: string): string {
+  const [path, queryString = ''] = endpoint.split('?');
+  const searchParams = new URLSearchParams(queryString);
+  const params: Record<string, string[]> = {};
+
+  searchParams.forEach((_, name) => {
+    params[name] = searchParams.getAll(name);
+  });
+
+  return CacheKeyGenerator.apiKey(path, params);
+}
+
+/**
+ * Map an HTTP error status to an ApiError, NetworkError or PermissionError
+ */
+export function mapHttpError(
+  status: number,
+  message: string | undefined,
+  details: Record<string, any> = {},
+  requestId?: string
+): AppError {
+  const context = { status, ...details };
+
+  switch (status) {
+    case 401:
+      return createError.permission(message || 'Authentication required for YouTrack API', 'UNAUTHORIZED', context, requestId);
+    case 403:
+      return createError.permission(message || 'Insufficient permissions for YouTrack API', 'PERMISSION_DENIED', context, requestId);
+    case 404:
+      return createError.api(message || 'Resource not found', 'NOT_FOUND', context, requestId);
+    case 408:
+      return createError.network(message || 'Request timeout', 'TIMEOUT', context, requestId);
+    case 429:
+      return createError.api(message || 'Too many requests to YouTrack API', 'RATE_LIMITED', context, requestId);
+    case 502:
+    case 503:
+    case 504:
+      return createError.network(message || 'YouTrack is temporarily unavailable', 'SERVICE_UNAVAILABLE', context, requestId);
+    default:
+      return status >= 500
+        ? createError.api(message || `HTTP ${status}`, 'SERVER_ERROR', context, requestId)
+        : createError.api(message || `HTTP ${status}`, `HTTP_${status}`, context, requestId);
+  }
+}
+
+/**
+ * Map a failure that never produced an HTTP status (abort, timeout, connection)
+ */
+function mapRequestFailure(error: any, request: TransportRequest, details: Record<string, any>, requestId?: string): AppError {
+  // Already structured (e.g. thrown by mapHttpError)
+  if (error?.type) {
+    return error;
+  }
+
+  if (request.signal?.aborted) {
+    return createError.network('Request aborted', 'REQUEST_ABORTED', details, requestId);
+  }
+
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+    return createError.network('Request timeout', 'TIMEOUT', { ...details, timeout: request.timeout }, requestId);
+  }
+
+  if (error?.name === 'TypeError') {
+    return createError.network('Network connection failed', 'CONNECTION_FAILED', details, requestId);
+  }
+
+  return createError.network(error?.message || 'Network error accessing YouTrack API', 'NETWORK_ERROR', details, requestId);
+}
+
+/**
+ * Host errors (ring-ui HTTPError) carry the status and the parsed error body
+ */
+async function requestThroughHost<T>(
+  fetcher: (url: string, params: Record<string, any>) => Promise<T>,
+  url: string,
+  request: TransportRequest,
+  transport: string,
+  requestId?: string
+): Promise<T> {
+  try {
+    return await fetcher(url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body
+    });
+  } catch (error: any) {
+    const details = { endpoint: request.endpoint, transport };
+
+    if (typeof error?.status === 'number' && error.status >= 400) {
+      throw mapHttpError(
+        error.status,
+        error.data?.error_description || error.data?.error?.message || error.data?.error,
+        { ...details, retryAfterMs: parseRetryAfter(error.headers?.['retry-after']) },
+        requestId
+      );
+    }
+
+    throw mapRequestFailure(error, request, details, requestId);
+  }
+}
+
+/**
+ * YouTrack REST API through the widget host (`host.fetchYouTrack`)
+ */
+export class HostTransport implements Transport {
+  readonly name = 'host';
+
+  constructor(private host: any) {}
+
+  async request<T>(request: TransportRequest, requestId?: string): Promise<TransportResponse<T>> {
+    if (!this.host?.fetchYouTrack) {
+      throw createError.configuration(
+        'YouTrack host context not available',
+        'HOST_CONTEXT_MISSING',
+        { endpoint: request.endpoint },
+        requestId
+      );
+    }
+
+    const data = await requestThroughHost<T>(
+      (url, params) => this.host.fetchYouTrack(url, params),
+      request.endpoint,
+      request,
+      this.name,
+      requestId
+    );
+
+    if (data === undefined || data === null) {
+      throw createError.api('No data received from YouTrack API', 'EMPTY_RESPONSE', { endpoint: request.endpoint }, requestId);
+    }
+
+    return { data, status: 200, statusText: 'OK', headers: {} };
+  }
+}
+
+/**
+ * Hub REST API through the widget host (`host.fetchHub`), for account data YouTrack does not expose (e.g. groups)
+ */
+export class HubTransport implements Transport {
+  readonly name = 'hub';
+
+  constructor(private host: any) {}
+
+  async request<T>(request: TransportRequest, requestId?: string): Promise<TransportResponse<T>> {
+    if (!this.host?.fetchHub) {
+      throw createError.configuration(
+        'Hub not available in this host context',
+        'HUB_UNAVAILABLE',
+        { endpoint: request.endpoint },
+        requestId
+      );
+    }
+
+    const data = await requestThroughHost<T>(
+      (url, params) => this.host.fetchHub(url, params),
+      request.endpoint,
+      request,
+      this.name,
+      requestId
+    );
+
+    return { data, status: 200, statusText: 'OK', headers: {} };
+  }
+}
+
+/**
+ * The app's own backend (`host.fetchApp`, handlers in backend.js)
+ * Endpoints are backend handler paths (`timers`, `stats`, ...), not YouTrack REST resources
+ */
+export class AppBackendTransport implements Transport {
+  readonly name = 'backend';
+
+  constructor(private host: any) {}
+
+  async request<T>(request: TransportRequest, requestId?: string): Promise<TransportResponse<T>> {
+    if (!this.host?.fetchApp) {
+      throw createError.configuration(
+        'App backend not available in this host context',
+        'BACKEND_UNAVAILABLE',
+        { endpoint: request.endpoint },
+        requestId
+      );
+    }
+
+    const response = await requestThroughHost<any>(
+      (url, params) => this.host.fetchApp(url, params),
+      `backend/${request.endpoint}`,
+      request,
+      this.name,
+      requestId
+    );
+
+    // Backend handlers wrap payloads as { data, meta } and failures as { error }
+    if (response?.error) {
+      throw createError.api(
+        response.error.message || 'Backend request failed',
+        response.error.code || 'BACKEND_ERROR',
+        { endpoint: request.endpoint, transport: this.name, backendError: response.error },
+        requestId
+      );
+    }
+
+    return {
+      data: (response && 'data' in response ? response.data : response) as T,
+      status: 200,
+      statusText: 'OK',
+      headers: {}
+    };
+  }
+}
+
+/**
+ * Token-based REST access for development, tests and use outside the widget
+ */
+export class RestTransport implements Transport {
+  readonly name: string;
+
+  constructor(private options: { baseUrl: string; token?: string }) {
+    this.name = `rest:${options.baseUrl}`;
+  }
+
+  /**
+   * Build from the validated environment (YOUTRACK_HOST / YOUTRACK_TOKEN)
+   */
+  static fromEnvironment(environment: EnvironmentConfig): RestTransport {
+    return new RestTransport({
+      baseUrl: `${environment.youtrack.baseUrl}/api`,
+      token: environment.youtrack.token
+    });
+  }
+
+  async request<T>(request: TransportRequest, requestId?: string): Promise<TransportResponse<T>> {
+    const url = `${this.options.baseUrl}/${request.endpoint}`;
+    const timeoutSignal = AbortSignal.timeout(request.timeout);
+    const details = { url, transport: this.name };
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: request.method,
+        headers: {
+          ...(this.options.token ? { 'Authorization': `Bearer ${this.options.token}` } : {}),
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...request.headers
+        },
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: request.signal ? AbortSignal.any([request.signal, timeoutSignal]) : timeoutSignal
+      });
+    } catch (error) {
+      throw mapRequestFailure(error, request, details, requestId);
+    }
+
+    if (!response.ok) {
+      let errorData: any = {};
+      try {
+        errorData = await response.json();
+      } catch {
+        // Ignore JSON parse errors for error responses
+      }
+
+      throw mapHttpError(
+        response.status,
+        errorData.error_description || errorData.message,
+        {
+          ...details,
+          statusText: response.statusText,
+          errorData,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+        },
+        requestId
+      );
+    }
+
+    return {
+      data: await response.json(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries())
+    };
+  }
+}
+
+/**
+ * A recorded response; statuses of 400 and above are replayed as errors
+ */
+export interface TransportFixture {
+  status?: number;
+  data?: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Key of a fixture: method, path and normalized query parameters
+ */
+export function fixtureKey(method: string, endpoint: string): string {
+  return `${method} ${endpointKey(endpoint)}`;
+}
+
+/**
+ * Replays recorded responses so the client can run offline.
+ * With an inner transport, unknown requests are forwarded and recorded
+ */
+export class FixtureTransport implements Transport {
+  readonly name = 'fixture';
+  private fixtures = new Map<string, TransportFixture>();
+
+  constructor(
+    fixtures: Array<{ method?: TransportRequest['method']; endpoint: string } & TransportFixture> = [],
+    private recordFrom?: Transport
+  ) {
+    fixtures.forEach(({ method = 'GET', endpoint, ...fixture }) => this.add(method, endpoint, fixture));
+  }
+
+  add(method: TransportRequest['method'], endpoint: string, fixture: TransportFixture): void {
+    this.fixtures.set(fixtureKey(method, endpoint), fixture);
+  }
+
+  /**
+   * Fixtures recorded so far (including the ones passed to the constructor)
+   */
+  getRecordings(): Array<[string, TransportFixture]> {
+    return Array.from(this.fixtures.entries());
+  }
+
+  async request<T>(request: TransportRequest, requestId?: string): Promise<TransportResponse<T>> {
+    const key = fixtureKey(request.method, request.endpoint);
+    const fixture = this.fixtures.get(key);
+
+    if (!fixture) {
+      if (this.recordFrom) {
+        const response = await this.recordFrom.request<T>(request, requestId);
+        this.fixtures.set(key, { status: response.status, data: response.data, headers: response.headers });
+        return response;
+      }
+
+      throw createError.api(
+        `No fixture recorded for ${request.method} ${request.endpoint}`,
+        'FIXTURE_MISSING',
+        { endpoint: request.endpoint, transport: this.name },
+        requestId
+      );
+    }
+
+    const status = fixture.status ?? 200;
+    if (status >= 400) {
+      throw mapHttpError(
+        status,
+        fixture.data?.error_description,
+        {
+          endpoint: request.endpoint,
+          transport: this.name,
+          retryAfterMs: parseRetryAfter(fixture.headers?.['retry-after'])
+        },
+        requestId
+      );
+    }
+
+    return { data: fixture.data as T, status, statusText: 'OK', headers: fixture.headers || {} };
+  }
+}
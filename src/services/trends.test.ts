@@ -0,0 +1,154 @@
+/**
+ * Tests for the trend engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTrends,
+  buildTrendSeries,
+  timerEventTrendSource,
+  trendCalendarFromProfile,
+  weekdayLabels,
+  workItemDayTrendSource,
+  workItemTrendSource,
+  TrendSeriesSpec
+} from './trends';
+import { ACTIVITY_EVENT_SOURCE } from './timerHistory';
+import { TimerEvent, TrendCalendar } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.UTC(2024, 2, 10, 12, 0, 0);
+const hours: TrendSeriesSpec = { length: 4, unit: 'hour', label: date => String(date.getTime()) };
+const days: TrendSeriesSpec = { length: 3, unit: 'day', label: date => String(date.getTime()) };
+const saoPaulo: TrendCalendar = { timeZone: 'America/Sao_Paulo', weekStartsOn: 1 };
+const newYork: TrendCalendar = { timeZone: 'America/New_York', weekStartsOn: 0 };
+
+const event = (type: TimerEvent['type'], created: number, extra: Partial<TimerEvent> = {}) =>
+  ({ id: `${type}-${created}`, type, created, issueId: '2-1', source: 'comments:pt-BR', ...extra } as TimerEvent);
+
+describe('buildTrendSeries', () => {
+  it('should count starts and average finished runs inside the covered period only', () => {
+    const source = timerEventTrendSource([
+      event('timer_started', NOW - 30 * 60 * 1000, { source: ACTIVITY_EVENT_SOURCE }),
+      event('timer_started', NOW - 20 * 60 * 1000, { source: ACTIVITY_EVENT_SOURCE }),
+      event('timer_stopped', NOW - 10 * 60 * 1000, { durationMs: HOUR, source: ACTIVITY_EVENT_SOURCE }),
+      event('timer_stopped', NOW - 5 * 60 * 1000, { durationMs: 3 * HOUR })
+    ], { since: NOW - 2 * HOUR, until: NOW + HOUR / 2 });
+
+    // The last bucket is the hour containing now
+    const points = buildTrendSeries(hours, [source], NOW + HOUR / 2, saoPaulo);
+
+    // Read since 10:00 only: older buckets are unknown, not zero
+    expect(points.map(point => point.gap ?? false)).toEqual([true, false, false, false]);
+    expect(points[1]).toMatchObject({ count: 0, source: 'timer_logs' });
+    expect(points[2]).toMatchObject({ count: 2, stops: 2, avgDuration: 2 * HOUR, source: 'activity_history' });
+  });
+
+  it('should align day buckets to midnight in the viewer time zone', () => {
+    // 01:00 UTC on the 10th is still the evening of the 9th in São Paulo (UTC-3)
+    const source = timerEventTrendSource([event('timer_started', Date.UTC(2024, 2, 10, 1))], { since: NOW - 7 * DAY, until: NOW });
+
+    const points = buildTrendSeries(days, [source], NOW, saoPaulo);
+
+    expect(points.map(point => point.timestamp)).toEqual([
+      '2024-03-08T03:00:00.000Z',
+      '2024-03-09T03:00:00.000Z',
+      '2024-03-10T03:00:00.000Z'
+    ]);
+    expect(points.map(point => point.count)).toEqual([0, 1, 0]);
+  });
+
+  it('should name weekdays in the viewer time zone and locale', () => {
+    // 01:00 UTC on Monday the 11th is still Sunday evening in São Paulo
+    const monday = Date.UTC(2024, 2, 11, 1);
+
+    expect(buildTrends([], monday, { ...saoPaulo, locale: 'pt-BR' }).weekly[6].label).toBe('dom.');
+    expect(buildTrends([], monday, { ...saoPaulo, locale: 'en-US' }).weekly[6].label).toBe('Sun');
+    expect(weekdayLabels({ locale: 'en-US' })).toEqual(['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']);
+  });
+
+  it('should keep calendar days across daylight saving changes', () => {
+    // New York springs forward on 2024-03-10: that day has 23 hours
+    const points = buildTrendSeries(days, [], Date.UTC(2024, 2, 11, 16), newYork);
+
+    expect(points.map(point => point.timestamp)).toEqual([
+      '2024-03-09T05:00:00.000Z',
+      '2024-03-10T05:00:00.000Z',
+      '2024-03-11T04:00:00.000Z'
+    ]);
+    expect(buildTrendSeries(hours, [], Date.UTC(2024, 2, 10, 8, 30), newYork).map(point => point.label)).toEqual(
+      [Date.UTC(2024, 2, 10, 5), Date.UTC(2024, 2, 10, 6), Date.UTC(2024, 2, 10, 7), Date.UTC(2024, 2, 10, 8)].map(String)
+    );
+  });
+
+  it('should never fill hourly buckets with day-resolution work items', () => {
+    const source = workItemTrendSource([{ date: Date.UTC(2024, 2, 10), duration: { minutes: 30 } }], { since: NOW - 30 * DAY, until: NOW }, saoPaulo);
+
+    expect(buildTrendSeries(hours, [source], NOW, saoPaulo).every(point => point.gap)).toBe(true);
+    // The UTC-midnight date is the 10th, not the evening of the 9th in São Paulo
+    expect(buildTrends([source], NOW, saoPaulo).weekly[6]).toMatchObject({ count: 1, avgDuration: 30 * 60 * 1000, source: 'work_items' });
+  });
+
+  it('should place backend day totals on their calendar day', () => {
+    const source = workItemDayTrendSource([
+      { key: '2024-03-09', count: 2, totalMinutes: 90 }
+    ], { since: NOW - 30 * DAY, until: NOW }, saoPaulo);
+
+    expect(buildTrends([source], NOW, saoPaulo).weekly[5]).toMatchObject({ count: 2, avgDuration: 45 * 60 * 1000, totalDuration: 90 * 60 * 1000 });
+  });
+
+  it('should prefer the first source that covers each bucket', () => {
+    const events = timerEventTrendSource([event('timer_started', NOW - HOUR)], { since: NOW - 7 * DAY, until: NOW });
+    const workItems = workItemTrendSource([
+      { date: Date.UTC(2024, 2, 1), duration: { minutes: 60 } },
+      { date: NOW - 2 * HOUR, duration: { minutes: 60 } }
+    ], { since: NOW - 30 * DAY, until: NOW }, saoPaulo);
+
+    const monthly = buildTrends([events, workItems], NOW, saoPaulo).monthly;
+
+    expect(monthly[29]).toMatchObject({ count: 1, source: 'timer_logs' });
+    expect(monthly[20]).toMatchObject({ count: 1, source: 'work_items' });
+    expect(monthly.some(point => point.gap)).toBe(false);
+  });
+});
+
+describe('calendar weeks', () => {
+  it('should start each week on the calendar week start', () => {
+    // Saturday 9 and Sunday 10 March 2024 in São Paulo: one week when weeks start on Monday, two when they start on Sunday
+    const source = timerEventTrendSource([
+      event('timer_started', Date.UTC(2024, 2, 9, 15)),
+      event('timer_started', Date.UTC(2024, 2, 10, 4))
+    ], { since: NOW - 30 * DAY, until: NOW });
+
+    const mondayWeeks = buildTrends([source], NOW, saoPaulo).calendarWeeks;
+    const sundayWeeks = buildTrends([source], NOW, { ...saoPaulo, weekStartsOn: 0 }).calendarWeeks;
+
+    expect(mondayWeeks.map(point => point.label)).toEqual(['12/02', '19/02', '26/02', '04/03']);
+    expect(sundayWeeks.map(point => point.label)).toEqual(['18/02', '25/02', '03/03', '10/03']);
+    expect(mondayWeeks[3].timestamp).toBe('2024-03-04T03:00:00.000Z');
+    expect(sundayWeeks[3].timestamp).toBe('2024-03-10T03:00:00.000Z');
+    expect(mondayWeeks.map(point => point.count)).toEqual([0, 0, 0, 2]);
+    expect(sundayWeeks.map(point => point.count)).toEqual([0, 0, 1, 1]);
+  });
+});
+
+describe('trendCalendarFromProfile', () => {
+  it('should prefer a valid chosen zone over the profile zone', () => {
+    const profile = { timezone: { id: 'Europe/Berlin', presentation: 'CET', offset: 3600 } } as any;
+
+    expect(trendCalendarFromProfile(profile)).toEqual({ timeZone: 'Europe/Berlin', weekStartsOn: 1 });
+    expect(trendCalendarFromProfile(profile, { timeZone: 'Asia/Tokyo', weekStartsOn: 0 })).toEqual({ timeZone: 'Asia/Tokyo', weekStartsOn: 0 });
+    expect(trendCalendarFromProfile(profile, { timeZone: 'Mars/Olympus' }).timeZone).toBe('Europe/Berlin');
+    expect(trendCalendarFromProfile(null).timeZone).toBeUndefined();
+  });
+
+  it('should take the profile locale unless a valid one is chosen', () => {
+    const profile = { locale: { id: 'pt_BR', language: 'pt', locale: 'pt_BR' } } as any;
+
+    expect(trendCalendarFromProfile(profile).locale).toBe('pt-BR');
+    expect(trendCalendarFromProfile(profile, { locale: 'en-US' }).locale).toBe('en-US');
+    expect(trendCalendarFromProfile(profile, { locale: 'not a locale' }).locale).toBe('pt-BR');
+    expect(trendCalendarFromProfile(null).locale).toBeUndefined();
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Trend Engine
+ * Builds the trend series only from things that happened: timer events (field history and logs)
+ * and work items. A bucket no source was read for is a gap, not a zero, and every point names its source.
+ * Buckets follow the viewer's calendar: hours, local midnight, week start and month start in their time zone,
+ * with weekday names in their locale
+ */
+
+import { addDays, addHours, addMonths, addWeeks, format, startOfDay, startOfHour, startOfMonth, startOfWeek } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import {
+  AnalyticsData,
+  TimerEvent,
+  TrendCalendar,
+  TrendPoint,
+  TrendSeriesName,
+  TrendSource,
+  WorkItemRollupEntry,
+  YouTrackAppearanceProfile
+} from '../types';
+import { ACTIVITY_EVENT_SOURCE } from './timerHistory';
+import { Logger } from './logger';
+
+const logger = Logger.getLogger('Trends');
+
+/**
+ * Default calendar: browser time zone and locale, weeks starting on Monday (ISO 8601)
+ */
+export const DEFAULT_TREND_CALENDAR: TrendCalendar = {
+  weekStartsOn: 1
+};
+
+/**
+ * Bucket size of a series
+ */
+export type TrendUnit = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * One real occurrence placed on the timeline
+ */
+export interface TrendSample {
+  at: number;
+  count: number; // Adds to the point count (timer starts, work items)
+  durationMs?: number; // Total duration of `runs` finished runs
+  runs?: number; // Defaults to 1 when a duration is given
+  source?: TrendSource; // Overrides the source of the data set (mixed event sources)
+}
+
+/**
+ * Samples from one source and the period it was read for; outside that period nothing is known
+ */
+export interface TrendSourceData {
+  source: TrendSource;
+  since: number;
+  until: number;
+  resolution: 'exact' | 'day'; // Day-resolution samples cannot fill hourly buckets
+  samples: TrendSample[];
+}
+
+/**
+ * Shape of one trend series: `length` buckets of one unit, the last one containing now
+ */
+export interface TrendSeriesSpec {
+  length: number;
+  unit: TrendUnit;
+  label: (bucketStart: Date, calendar: TrendCalendar) => string; // Zoned dates format in their own zone
+}
+
+/**
+ * Short weekday name of a date in the calendar's zone and locale ("dom.", "Sun")
+ */
+export function weekdayLabel(date: Date | number, calendar: Pick<TrendCalendar, 'timeZone' | 'locale'>): string {
+  return new Intl.DateTimeFormat(calendar.locale, { weekday: 'short', timeZone: calendar.timeZone }).format(date);
+}
+
+/**
+ * Short weekday names indexed like `Date.getDay()` (0 = Sunday), in the calendar's locale
+ */
+export function weekdayLabels(calendar: Pick<TrendCalendar, 'locale'>): string[] {
+  // The week of Sunday 2024-01-07, read in UTC
+  return Array.from({ length: 7 }, (_, day) =>
+    weekdayLabel(Date.UTC(2024, 0, 7 + day), { locale: calendar.locale, timeZone: 'UTC' }));
+}
+
+const hourLabel = (date: Date) => format(date, "HH'h'");
+
+export const TREND_SERIES: Record<TrendSeriesName, TrendSeriesSpec> = {
+  hourly: { length: 12, unit: 'hour', label: hourLabel },
+  daily: { length: 24, unit: 'hour', label: hourLabel },
+  weekly: { length: 7, unit: 'day', label: weekdayLabel },
+  monthly: { length: 30, unit: 'day', label: date => format(date, 'dd/MM') },
+  // Starts on the calendar's week start; four weeks stay inside the 30 days of work items
+  calendarWeeks: { length: 4, unit: 'week', label: date => format(date, 'dd/MM') }
+};
+
+/**
+ * Check an IANA time zone name against the runtime's zone database
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a BCP 47 locale tag against the runtime's locale data
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// YouTrack names locales like Java ("pt_BR")
+function profileLocale(profile?: Pick<YouTrackAppearanceProfile, 'locale'> | null): string | undefined {
+  return profile?.locale?.locale?.replace('_', '-');
+}
+
+/**
+ * Build the trend calendar from the viewer's appearance profile plus local overrides
+ * Unknown zones fall back to the profile zone, then to the browser zone; locales likewise
+ */
+export function trendCalendarFromProfile(
+  profile?: Pick<YouTrackAppearanceProfile, 'timezone' | 'locale'> | null,
+  overrides: Partial<TrendCalendar> = {}
+): TrendCalendar {
+  const zones = [overrides.timeZone, profile?.timezone?.id].filter((zone): zone is string => Boolean(zone));
+  const timeZone = zones.find(isValidTimeZone);
+
+  if (zones.length > 0 && !timeZone) {
+    logger.warn('Unknown time zone, trends use the browser time zone', { zones });
+  }
+
+  const locale = [overrides.locale, profileLocale(profile)].find((tag): tag is string => Boolean(tag) && isValidLocale(tag));
+
+  return {
+    ...DEFAULT_TREND_CALENDAR,
+    ...overrides,
+    timeZone,
+    locale
+  };
+}
+
+// Dates whose calendar fields (hours, day, week) are read in the calendar's zone
+function zonedDate(timestamp: number, calendar: TrendCalendar): Date {
+  return calendar.timeZone ? new TZDate(timestamp, calendar.timeZone) : new Date(timestamp);
+}
+
+function startOfUnit(date: Date, unit: TrendUnit, calendar: TrendCalendar): Date {
+  switch (unit) {
+    case 'hour': return startOfHour(date);
+    case 'day': return startOfDay(date);
+    case 'week': return startOfWeek(date, { weekStartsOn: calendar.weekStartsOn });
+    case 'month': return startOfMonth(date);
+  }
+}
+
+// Calendar arithmetic in the zone: a day is midnight to midnight even across DST changes
+function addUnits(date: Date, unit: TrendUnit, amount: number): Date {
+  switch (unit) {
+    case 'hour': return addHours(date, amount);
+    case 'day': return addDays(date, amount);
+    case 'week': return addWeeks(date, amount);
+    case 'month': return addMonths(date, amount);
+  }
+}
+
+/**
+ * Midnight of a calendar day (YYYY-MM-DD or a UTC-midnight timestamp) in the calendar's zone
+ */
+export function calendarDayStart(day: string | number, calendar: TrendCalendar): number {
+  const [year, month, date] = (typeof day === 'number' ? new Date(day).toISOString().slice(0, 10) : day)
+    .split('-')
+    .map(Number);
+
+  return calendar.timeZone
+    ? new TZDate(year, month - 1, date, calendar.timeZone).getTime()
+    : new Date(year, month - 1, date).getTime();
+}
+
+/**
+ * Timer starts (count) and finished runs (duration) from timer events read for `range`
+ */
+export function timerEventTrendSource(events: TimerEvent[], range: { since: number; until: number }): TrendSourceData {
+  const samples: TrendSample[] = [];
+
+  events.forEach(event => {
+    const source: TrendSource = event.source === ACTIVITY_EVENT_SOURCE ? 'activity_history' : 'timer_logs';
+
+    if (event.type === 'timer_started') {
+      samples.push({ at: event.created, count: 1, source });
+    } else if (event.durationMs !== undefined && event.durationMs > 0) {
+      samples.push({ at: event.created, count: 0, durationMs: event.durationMs, source });
+    }
+  });
+
+  return { source: 'timer_logs', ...range, resolution: 'exact', samples };
+}
+
+/**
+ * Work items read for `range`; their date is the UTC midnight of the day they were done,
+ * so each one lands on that calendar day in the viewer's zone and never fills hourly buckets
+ */
+export function workItemTrendSource(
+  workItems: Array<{ date?: number; created?: number; duration?: { minutes?: number } }>,
+  range: { since: number; until: number },
+  calendar: TrendCalendar = DEFAULT_TREND_CALENDAR
+): TrendSourceData {
+  return {
+    source: 'work_items',
+    ...range,
+    resolution: 'day',
+    samples: workItems.map(workItem => ({
+      at: calendarDayStart(workItem.date || workItem.created || 0, calendar),
+      count: 1,
+      durationMs: (workItem.duration?.minutes || 0) * 60 * 1000
+    }))
+  };
+}
+
+/**
+ * Per-day work item totals aggregated by the app backend, read for `range`
+ */
+export function workItemDayTrendSource(
+  days: WorkItemRollupEntry[],
+  range: { since: number; until: number },
+  calendar: TrendCalendar = DEFAULT_TREND_CALENDAR
+): TrendSourceData {
+  return {
+    source: 'work_items',
+    ...range,
+    resolution: 'day',
+    samples: days.map(day => ({
+      at: calendarDayStart(day.key, calendar),
+      count: day.count,
+      durationMs: day.totalMinutes * 60 * 1000,
+      runs: day.count
+    }))
+  };
+}
+
+function mostCommonSource(samples: TrendSample[], fallback: TrendSource): TrendSource {
+  const counts = new Map<TrendSource, number>();
+  samples.forEach(sample => {
+    const source = sample.source || fallback;
+    counts.set(source, (counts.get(source) || 0) + 1);
+  });
+
+  let best = fallback;
+  counts.forEach((count, source) => {
+    if (count > (counts.get(best) || 0)) best = source;
+  });
+  return best;
+}
+
+/**
+ * Bucket the samples of the first source (in the given order) that covers each bucket
+ */
+export function buildTrendSeries(
+  spec: TrendSeriesSpec,
+  sources: TrendSourceData[],
+  now: number,
+  calendar: TrendCalendar = DEFAULT_TREND_CALENDAR
+): TrendPoint[] {
+  const current = startOfUnit(zonedDate(now, calendar), spec.unit, calendar);
+
+  return Array.from({ length: spec.length }, (_, index): TrendPoint => {
+    const start = addUnits(current, spec.unit, index - (spec.length - 1));
+    const bucketStart = start.getTime();
+    const bucketEnd = addUnits(start, spec.unit, 1).getTime();
+    const label = spec.label(start, calendar);
+    const timestamp = new Date(bucketStart).toISOString();
+
+    const data = sources.find(candidate =>
+      (candidate.resolution === 'exact' || spec.unit !== 'hour') &&
+      candidate.since <= bucketStart && candidate.until > bucketStart);
+
+    if (!data) {
+      return { label, count: 0, avgDuration: 0, timestamp, gap: true };
+    }
+
+    const samples = data.samples.filter(sample => sample.at >= bucketStart && sample.at < bucketEnd);
+    const count = samples.reduce((sum, sample) => sum + sample.count, 0);
+    const timed = samples.filter(sample => sample.durationMs !== undefined && sample.durationMs > 0);
+    const runs = timed.reduce((sum, sample) => sum + (sample.runs ?? 1), 0);
+    const totalDuration = timed.reduce((sum, sample) => sum + sample.durationMs!, 0);
+
+    return {
+      label,
+      count,
+      avgDuration: runs > 0 ? totalDuration / runs : 0,
+      timestamp,
+      starts: count,
+      stops: runs,
+      totalDuration,
+      source: mostCommonSource(samples, data.source)
+    };
+  });
+}
+
+/**
+ * Every widget series from the given sources, most precise first
+ */
+export function buildTrends(
+  sources: TrendSourceData[],
+  now: number = Date.now(),
+  calendar: TrendCalendar = DEFAULT_TREND_CALENDAR
+): AnalyticsData['trends'] {
+  return {
+    hourly: buildTrendSeries(TREND_SERIES.hourly, sources, now, calendar),
+    daily: buildTrendSeries(TREND_SERIES.daily, sources, now, calendar),
+    weekly: buildTrendSeries(TREND_SERIES.weekly, sources, now, calendar),
+    monthly: buildTrendSeries(TREND_SERIES.monthly, sources, now, calendar),
+    calendarWeeks: buildTrendSeries(TREND_SERIES.calendarWeeks, sources, now, calendar)
+  };
+}
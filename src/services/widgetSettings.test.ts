@@ -0,0 +1,49 @@
+/**
+ * Tests for widget settings persistence
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { loadWidgetSettings, mergeWidgetSettings, saveWidgetSettings, DEFAULT_DISPLAY_CONFIG } from './widgetSettings';
+import { DEFAULT_ALERT_CONFIG } from './thresholds';
+
+describe('mergeWidgetSettings', () => {
+  it('should show completed timers by default', () => {
+    expect(mergeWidgetSettings(null).filterConfig).toEqual({ hideCompleted: false });
+  });
+
+  it('should keep stored values and fill what older configs lack', () => {
+    const settings = mergeWidgetSettings({
+      filterConfig: { hideCompleted: false, projects: ['WEB'] },
+      displayConfig: { groupBy: 'issue' },
+      alertConfig: { criticalThreshold: 10, customThresholds: { alice: { longThreshold: 5 } } }
+    });
+
+    expect(settings.filterConfig).toEqual({ hideCompleted: false, projects: ['WEB'] });
+    expect(settings.displayConfig).toEqual({ ...DEFAULT_DISPLAY_CONFIG, groupBy: 'issue' });
+    expect(settings.alertConfig).toMatchObject({ attentionThreshold: 2, criticalThreshold: 10, projectThresholds: {} });
+    expect(settings.alertConfig?.customThresholds).toEqual({ alice: { longThreshold: 5 } });
+  });
+
+  it('should not share the default objects between merges', () => {
+    mergeWidgetSettings(null).alertConfig!.projectThresholds!.WEB = { longThreshold: 1 };
+    expect(mergeWidgetSettings(null).alertConfig?.projectThresholds).toEqual({});
+    expect(DEFAULT_ALERT_CONFIG.projectThresholds).toEqual({});
+  });
+});
+
+describe('loadWidgetSettings / saveWidgetSettings', () => {
+  it('should round-trip through the host config', async () => {
+    let stored: unknown = null;
+    const host = { readConfig: vi.fn(async () => stored), storeConfig: vi.fn(async (value: unknown) => { stored = value; }) };
+
+    const settings = { ...mergeWidgetSettings(null), filterConfig: { hideCompleted: true } };
+    await saveWidgetSettings(host, settings);
+
+    expect(await loadWidgetSettings(host)).toEqual(settings);
+  });
+
+  it('should fall back to defaults when the host cannot read its config', async () => {
+    const host = { readConfig: vi.fn(async () => { throw new Error('offline'); }) };
+    expect(await loadWidgetSettings(host)).toEqual(mergeWidgetSettings(null));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Widget Settings Persistence
+ * Loads and stores widget settings through the YouTrack host readConfig/storeConfig API
+ */
+
+import { AlertConfig, DeepPartial, DisplayConfig, WidgetSettings } from '../types';
+import { DEFAULT_ALERT_CONFIG } from './thresholds';
+import { Logger } from './logger';
+
+const logger = Logger.getLogger('WidgetSettings');
+
+/**
+ * Default display configuration (individual timer cards, longest first)
+ */
+export const DEFAULT_DISPLAY_CONFIG: DisplayConfig = {
+  groupBy: 'none',
+  sortBy: 'time',
+  sortOrder: 'desc',
+  showEmptyStates: true,
+  showDurations: true,
+  showProjectNames: true,
+  showUserAvatars: false,
+  compactMode: false
+};
+
+/**
+ * Default widget settings used when nothing has been stored yet
+ */
+export const DEFAULT_WIDGET_SETTINGS: WidgetSettings = {
+  autoRefresh: true, // Cheap since timer issues are synced incrementally
+  showStats: true,
+  showProjectBreakdown: true,
+  showUserBreakdown: true,
+  alertConfig: DEFAULT_ALERT_CONFIG,
+  displayConfig: DEFAULT_DISPLAY_CONFIG,
+  filterConfig: { hideCompleted: false }
+};
+
+/**
+ * Merge stored (possibly partial or outdated) settings over the defaults
+ */
+export function mergeWidgetSettings(stored?: DeepPartial<WidgetSettings> | null): WidgetSettings {
+  // Nothing stored still gets its own copies of the nested defaults (threshold maps included)
+  stored = stored || {};
+
+  return {
+    ...DEFAULT_WIDGET_SETTINGS,
+    ...stored,
+    alertConfig: {
+      ...DEFAULT_ALERT_CONFIG,
+      ...stored.alertConfig,
+      customThresholds: {
+        ...(stored.alertConfig?.customThresholds as AlertConfig['customThresholds'])
+      },
+      projectThresholds: {
+        ...(stored.alertConfig?.projectThresholds as AlertConfig['projectThresholds'])
+      }
+    },
+    displayConfig: {
+      ...DEFAULT_DISPLAY_CONFIG,
+      ...stored.displayConfig
+    },
+    filterConfig: {
+      ...DEFAULT_WIDGET_SETTINGS.filterConfig,
+      ...stored.filterConfig
+    }
+  } as WidgetSettings;
+}
+
+/**
+ * Load widget settings from the host, falling back to defaults when unavailable
+ */
+export async function loadWidgetSettings(host?: any): Promise<WidgetSettings> {
+  if (!host?.readConfig) {
+    return mergeWidgetSettings(null);
+  }
+
+  try {
+    const stored = await host.readConfig();
+    return mergeWidgetSettings(stored as DeepPartial<WidgetSettings> | null);
+  } catch (error) {
+    logger.warn('Failed to read widget config, using defaults', { error: (error as Error).message });
+    return mergeWidgetSettings(null);
+  }
+}
+
+/**
+ * Persist widget settings through the host
+ */
+export async function saveWidgetSettings(host: any, settings: WidgetSettings): Promise<void> {
+  if (!host?.storeConfig) {
+    logger.warn('Host does not support storeConfig, settings not persisted');
+    return;
+  }
+
+  await host.storeConfig(settings);
+  logger.info('Widget settings stored');
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for working time calculation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateWorkingElapsedMs, toDayIndex, workCalendarFromProfile, DEFAULT_WORK_CALENDAR } from './workCalendar';
+import { calculateStats, processTimerData } from './api';
+import { IssueWithTimer } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('calculateWorkingElapsedMs', () => {
+  it('should count only working hours within a single day', () => {
+    // Monday 2024-01-08, 08:00 -> 20:00 overlaps the 09:00-17:00 window
+    const start = new Date(2024, 0, 8, 8).getTime();
+    const end = new Date(2024, 0, 8, 20).getTime();
+
+    expect(calculateWorkingElapsedMs(start, end, DEFAULT_WORK_CALENDAR)).toBe(8 * HOUR);
+  });
+
+  it('should skip nights and weekends', () => {
+    // Friday 15:00 -> Monday 11:00 = 2h Friday + 2h Monday
+    const start = new Date(2024, 0, 12, 15).getTime();
+    const end = new Date(2024, 0, 15, 11).getTime();
+
+    expect(calculateWorkingElapsedMs(start, end, DEFAULT_WORK_CALENDAR)).toBe(4 * HOUR);
+  });
+
+  it('should skip configured holidays', () => {
+    const calendar = { ...DEFAULT_WORK_CALENDAR, holidays: ['2024-01-08'] };
+    const start = new Date(2024, 0, 8, 9).getTime();
+    const end = new Date(2024, 0, 9, 12).getTime();
+
+    expect(calculateWorkingElapsedMs(start, end, calendar)).toBe(3 * HOUR);
+  });
+
+  it('should return zero for inverted ranges', () => {
+    const now = Date.now();
+    expect(calculateWorkingElapsedMs(now, now - HOUR)).toBe(0);
+  });
+});
+
+describe('workCalendarFromProfile', () => {
+  it('should map profile work days and hours', () => {
+    const calendar = workCalendarFromProfile({
+      workTimeSettings: {
+        daysAWeek: 6,
+        hoursADay: 6,
+        workDays: [
+          { id: 'monday', presentation: 'Monday' },
+          { id: 'saturday', presentation: 'Saturday' }
+        ]
+      }
+    });
+
+    expect(calendar.hoursADay).toBe(6);
+    expect(calendar.workDays).toEqual([1, 6]);
+  });
+
+  it('should fall back to defaults without a profile', () => {
+    expect(workCalendarFromProfile(null)).toEqual(DEFAULT_WORK_CALENDAR);
+  });
+
+  it('should convert ISO day numbers', () => {
+    expect(toDayIndex(7)).toBe(0);
+    expect(toDayIndex(1)).toBe(1);
+    expect(toDayIndex(9)).toBeNull();
+  });
+});
+
+describe('working elapsed mode', () => {
+  // Left running over the weekend: Friday 15:00 -> Monday 11:00
+  const start = new Date(2024, 0, 12, 15).getTime();
+  const now = new Date(2024, 0, 15, 11).getTime();
+  const issues = [{
+    id: '2-1',
+    summary: 'Weekend timer',
+    project: { id: '0-1', name: 'Ops', shortName: 'OPS' },
+    numberInProject: 1,
+    timerHashData: {},
+    parsedTimers: [{ username: 'alice', startTime: start, segments: [{ start }] }],
+    created: 0,
+    updated: 0
+  } as IssueWithTimer];
+
+  it('should classify by working time and keep wall time alongside', () => {
+    const [wall] = processTimerData(issues, { now, workCalendar: DEFAULT_WORK_CALENDAR });
+    const [working] = processTimerData(issues, { now, workCalendar: DEFAULT_WORK_CALENDAR, elapsedMode: 'working' });
+
+    expect(wall).toMatchObject({ elapsedMs: 68 * HOUR, wallElapsedMs: 68 * HOUR, workingElapsedMs: 4 * HOUR, status: 'critical' });
+    expect(working).toMatchObject({ elapsedMs: 4 * HOUR, wallElapsedMs: 68 * HOUR, status: 'long' });
+  });
+
+  it('should total either value in the stats', () => {
+    const entries = processTimerData(issues, { now, workCalendar: DEFAULT_WORK_CALENDAR, elapsedMode: 'working' });
+
+    expect(calculateStats(entries).totalTimeMs).toBe(4 * HOUR);
+    expect(calculateStats(entries, { elapsedMode: 'wall' }).totalTimeMs).toBe(68 * HOUR);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Work Calendar
+ * Computes elapsed working time for timers using the YouTrack time tracking profile and a holiday list
+ */
+
+import { addDays, format, startOfDay } from 'date-fns';
+import {
+  TimerEntry,
+  ElapsedTimeMode,
+  WorkCalendarConfig,
+  YouTrackDayOfWeek,
+  YouTrackTimeTrackingProfile
+} from '../types';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Safety cap for forgotten timers (about ten years of days)
+const MAX_CALENDAR_DAYS = 3660;
+
+const DAY_NAME_INDEX: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6
+};
+
+/**
+ * Default calendar: Monday to Friday, 8 hours starting at 09:00
+ */
+export const DEFAULT_WORK_CALENDAR: WorkCalendarConfig = {
+  hoursADay: 8,
+  workDays: [1, 2, 3, 4, 5],
+  workdayStartHour: 9,
+  holidays: []
+};
+
+/**
+ * Convert a YouTrack day of week (ISO number 1-7 or {id, presentation}) to a JS day index
+ */
+export function toDayIndex(day: YouTrackDayOfWeek | number | string): number | null {
+  if (typeof day === 'number') {
+    return day >= 1 && day <= 7 ? day % 7 : null;
+  }
+
+  const raw = typeof day === 'string' ? day : (day.id || day.presentation || '');
+  if (/^\d+$/.test(raw)) {
+    return toDayIndex(parseInt(raw, 10));
+  }
+
+  const index = DAY_NAME_INDEX[raw.trim().toLowerCase().slice(0, 3)];
+  return index ?? null;
+}
+
+/**
+ * Build a work calendar from the user's time tracking profile plus local overrides
+ */
+export function workCalendarFromProfile(
+  profile?: YouTrackTimeTrackingProfile | null,
+  overrides: Partial<WorkCalendarConfig> = {}
+): WorkCalendarConfig {
+  const settings = profile?.workTimeSettings;
+  const profileDays = (settings?.workDays?.length ? settings.workDays : profile?.workDays) || [];
+  const workDays = profileDays
+    .map(day => toDayIndex(day))
+    .filter((day): day is number => day !== null);
+
+  return {
+    ...DEFAULT_WORK_CALENDAR,
+    ...(settings?.hoursADay ? { hoursADay: settings.hoursADay } : {}),
+    ...(workDays.length > 0 ? { workDays } : {}),
+    ...overrides
+  };
+}
+
+/**
+ * Check whether a local date is a working day in the calendar
+ */
+export function isWorkingDay(date: Date, calendar: WorkCalendarConfig): boolean {
+  if (!calendar.workDays.includes(date.getDay())) {
+    return false;
+  }
+
+  return !calendar.holidays.includes(format(date, 'yyyy-MM-dd'));
+}
+
+/**
+ * Elapsed time between two timestamps that falls inside working hours
+ */
+export function calculateWorkingElapsedMs(
+  startMs: number,
+  endMs: number,
+  calendar: WorkCalendarConfig = DEFAULT_WORK_CALENDAR
+): number {
+  if (endMs <= startMs || calendar.hoursADay <= 0) {
+    return 0;
+  }
+
+  let total = 0;
+  let day = startOfDay(new Date(startMs));
+
+  for (let i = 0; i < MAX_CALENDAR_DAYS && day.getTime() < endMs; i++) {
+    if (isWorkingDay(day, calendar)) {
+      // setHours keeps local wall-clock hours correct across DST changes
+      const windowStart = new Date(day);
+      windowStart.setHours(calendar.workdayStartHour, 0, 0, 0);
+      const windowEnd = windowStart.getTime() + calendar.hoursADay * MS_PER_HOUR;
+
+      const overlapStart = Math.max(startMs, windowStart.getTime());
+      const overlapEnd = Math.min(endMs, windowEnd);
+
+      if (overlapEnd > overlapStart) {
+        total += overlapEnd - overlapStart;
+      }
+    }
+
+    day = addDays(day, 1);
+  }
+
+  return total;
+}
+
+/**
+ * Elapsed time of an entry for the requested mode (falls back to wall time)
+ */
+export function getEntryElapsedMs(entry: TimerEntry, mode?: ElapsedTimeMode): number {
+  if (mode === 'working') {
+    return entry.workingElapsedMs ?? entry.wallElapsedMs;
+  }
+
+  if (mode === 'wall') {
+    return entry.wallElapsedMs;
+  }
+
+  return entry.elapsedMs;
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for work type resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveTimerWorkTypes } from './worktype';
+import { TimerEntry } from '../types';
+import { timerEntry } from '../test/fixtures';
+
+const START = Date.UTC(2024, 0, 15, 9);
+const WORK_ITEM_TYPES = [
+  { id: '1', name: 'Development' },
+  { id: '2', name: 'Revisão' }
+];
+
+const entry = (overrides: Partial<TimerEntry> = {}): TimerEntry =>
+  timerEntry({ issueId: '2-1', issueKey: 'BP-1', startTime: START, lastUpdated: START, ...overrides });
+
+const startLog = (workType: string, created: number) => ({
+  type: 'timer_started',
+  issueId: '2-1',
+  created,
+  workType,
+  author: { login: 'alice' }
+});
+
+describe('resolveTimerWorkTypes', () => {
+  it('should prefer the payload and canonicalise configured names', () => {
+    const [resolved] = resolveTimerWorkTypes([entry({ worktype: 'revisao' })], {
+      logs: [startLog('Development', START)],
+      workItemTypes: WORK_ITEM_TYPES
+    });
+
+    expect(resolved).toMatchObject({ worktype: 'Revisão', worktypeSource: 'payload', worktypeValid: true });
+  });
+
+  it('should use the latest start comment of the current run', () => {
+    const [resolved] = resolveTimerWorkTypes([entry()], {
+      logs: [
+        startLog('Revisão', START - 24 * 60 * 60 * 1000),
+        startLog('Development', START + 1000),
+        startLog('Meeting', START)
+      ],
+      workItemTypes: WORK_ITEM_TYPES
+    });
+
+    expect(resolved).toMatchObject({ worktype: 'Development', worktypeSource: 'comment', worktypeValid: true });
+  });
+
+  it('should flag work types that are not configured', () => {
+    const [resolved] = resolveTimerWorkTypes([entry({ worktype: 'Coffee' })], { workItemTypes: WORK_ITEM_TYPES });
+
+    expect(resolved.worktypeValid).toBe(false);
+    expect(resolved.worktype).toBe('Coffee');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Work Type Resolution
+ * Resolves the work type of active timers from the hash payload or the latest start comment
+ * (parsed into timer events by the comment source in timerEvents),
+ * validating it against the work item types configured in YouTrack
+ */
+
+import { TimerEntry, WorkItemTypeRef } from '../types';
+
+// Start comments written shortly before the hash entry still belong to the same run
+const START_COMMENT_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Minimal shape of a timer log needed to resolve work types
+ */
+export interface WorkTypeLogSource {
+  type: string;
+  issueId: string;
+  created: number | string;
+  workType?: string;
+  author?: { login?: string };
+}
+
+/**
+ * Find the configured work item type matching a name (case and accent insensitive)
+ */
+export function matchWorkItemType(name: string, workItemTypes: WorkItemTypeRef[]): WorkItemTypeRef | undefined {
+  const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+  const target = normalize(name);
+
+  return workItemTypes.find(type => normalize(type.name) === target);
+}
+
+/**
+ * Latest start comment work type for a running timer
+ */
+function findStartCommentWorkType(entry: TimerEntry, logs: WorkTypeLogSource[]): string | undefined {
+  let latest: { created: number; workType: string } | undefined;
+
+  logs.forEach(log => {
+    if (log.type !== 'timer_started' || log.issueId !== entry.issueId || log.author?.login !== entry.username) return;
+    if (!log.workType || log.workType === 'N/A') return;
+
+    const created = new Date(log.created).getTime();
+    if (created < entry.startTime - START_COMMENT_TOLERANCE_MS) return;
+
+    if (!latest || created > latest.created) {
+      latest = { created, workType: log.workType };
+    }
+  });
+
+  return latest?.workType;
+}
+
+/**
+ * Resolve the work type of every entry: hash payload first, then the latest start comment
+ * When work item types are known, names are canonicalised and unknown names flagged
+ */
+export function resolveTimerWorkTypes(
+  entries: TimerEntry[],
+  options: { logs?: WorkTypeLogSource[]; workItemTypes?: WorkItemTypeRef[] } = {}
+): TimerEntry[] {
+  const logs = options.logs || [];
+  const workItemTypes = options.workItemTypes || [];
+
+  return entries.map(entry => {
+    const fromPayload = entry.worktype;
+    const rawWorktype = fromPayload || findStartCommentWorkType(entry, logs);
+
+    if (!rawWorktype) {
+      return { ...entry, worktype: undefined, worktypeSource: undefined, worktypeValid: undefined };
+    }
+
+    const worktypeSource = fromPayload ? 'payload' as const : 'comment' as const;
+    if (workItemTypes.length === 0) {
+      return { ...entry, worktype: rawWorktype, worktypeSource, worktypeValid: undefined };
+    }
+
+    const match = matchWorkItemType(rawWorktype, workItemTypes);
+    return {
+      ...entry,
+      worktype: match ? match.name : rawWorktype,
+      worktypeSource,
+      worktypeValid: Boolean(match)
+    };
+  });
+}
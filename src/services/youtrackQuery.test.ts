@@ -0,0 +1,55 @@
+/**
+ * Tests for the YouTrack query builder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileQuery, filterConfigToQuery, q } from './youtrackQuery';
+
+describe('compileQuery', () => {
+  it('should brace field names and values that are not plain tokens', () => {
+    expect(compileQuery(q.and(
+      q.has('Timer Hash Data'),
+      q.field('project', 'ABC', 'Mobile App'),
+      q.field('issue id', 'ABC-1'),
+      q.tag('needs review')
+    ))).toBe('has: {Timer Hash Data} project: ABC, {Mobile App} issue id: ABC-1 tag: {needs review}');
+  });
+
+  it('should keep exclusions, keywords and open ranges intact', () => {
+    expect(compileQuery(q.and(
+      q.exclude('State', 'Won\'t fix', '-draft'),
+      q.range('updated', new Date(2024, 2, 10, 8, 0, 0)),
+      q.range('created', '2024-01-01', q.keyword('today'))
+    ))).toBe('State: -{Won\'t fix}, -{-draft} updated: 2024-03-10T08:00:00 .. * created: 2024-01-01 .. today');
+  });
+
+  it('should parenthesize alternatives and raw queries inside a conjunction', () => {
+    expect(compileQuery(q.and(
+      q.or(q.field('Assignee', 'alice'), q.field('Assignee', 'bob')),
+      q.raw('#Unresolved or #Bug'),
+      null
+    ))).toBe('(Assignee: alice or Assignee: bob) (#Unresolved or #Bug)');
+  });
+
+  it('should reject values that cannot be escaped', () => {
+    expect(() => compileQuery(q.field('project', 'a}b'))).toThrow(/cannot contain/);
+  });
+});
+
+describe('filterConfigToQuery', () => {
+  it('should compile projects, time range and custom query', () => {
+    const now = new Date(2024, 2, 10, 12, 0, 0).getTime();
+
+    expect(compileQuery(filterConfigToQuery({
+      projects: ['ABC', 'Web Team'],
+      users: ['alice'],
+      timeRange: { type: 'last_hours', value: 2 },
+      customQuery: 'Priority: Critical or Priority: Major',
+      hideCompleted: true
+    }, now))).toBe('project: ABC, {Web Team} updated: 2024-03-10T10:00:00 .. * (Priority: Critical or Priority: Major)');
+  });
+
+  it('should compile an empty filter to an empty query', () => {
+    expect(compileQuery(filterConfigToQuery({ hideCompleted: true }))).toBe('');
+  });
+});
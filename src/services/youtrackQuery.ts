@@ -0,0 +1,170 @@
+/**
+ * YouTrack Query Builder
+ * Small AST for YouTrack search syntax (attributes, ranges, has:, tags, boolean operators)
+ * compiled with the quoting YouTrack expects, plus the compiler for the widget FilterConfig
+ */
+
+import { format } from 'date-fns';
+import { FilterConfig } from '../types';
+import { createError } from './errorHandler';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Predefined value such as `Today`, `me` or the open range end `*`
+ */
+export interface QueryKeyword {
+  keyword: string;
+}
+
+export type QueryValue = string | number | Date | QueryKeyword;
+
+export type QueryNode =
+  | { kind: 'field'; field: string; values: QueryValue[]; exclude?: boolean }
+  | { kind: 'range'; field: string; from: QueryValue; to: QueryValue }
+  | { kind: 'has'; field: string; negate?: boolean }
+  | { kind: 'tag'; tags: string[] }
+  | { kind: 'and'; nodes: QueryNode[] }
+  | { kind: 'or'; nodes: QueryNode[] }
+  | { kind: 'raw'; query: string };
+
+// Multi-word attributes YouTrack accepts without braces
+const BUILT_IN_ATTRIBUTES = new Set(['issue id', 'updated by', 'reported by', 'commented by', 'resolved date', 'work author', 'work date', 'work type']);
+
+const PLAIN_VALUE = /^[\p{L}\p{N}_.@][\p{L}\p{N}_.@-]*$/u;
+const PLAIN_FIELD = /^[\p{L}\p{N}_]+$/u;
+
+/**
+ * Format a timestamp for a date range in a YouTrack query
+ * YouTrack reads query dates in the user's profile time zone: pass a TZDate in that zone, plain dates use the browser's
+ */
+export function formatQueryTimestamp(timestamp: number | Date): string {
+  return format(timestamp, "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+/**
+ * Wrap text in braces when it is not a plain token
+ * YouTrack has no escape sequence, so a closing brace cannot appear inside braces
+ */
+function braced(text: string, plain: RegExp): string {
+  if (plain.test(text)) {
+    return text;
+  }
+
+  if (text.includes('}')) {
+    throw createError.validation(`Query term cannot contain "}": ${text}`, 'INVALID_QUERY_TERM', { text });
+  }
+
+  return `{${text.trim()}}`;
+}
+
+function compileField(field: string): string {
+  return BUILT_IN_ATTRIBUTES.has(field.toLowerCase()) ? field : braced(field, PLAIN_FIELD);
+}
+
+function compileValue(value: QueryValue): string {
+  if (value instanceof Date) {
+    return formatQueryTimestamp(value);
+  }
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  if (typeof value === 'object') {
+    return value.keyword;
+  }
+
+  return braced(value, PLAIN_VALUE);
+}
+
+/**
+ * Node factories. Empty or missing parts are dropped, so optional filters compose directly
+ */
+export const q = {
+  field: (field: string, ...values: QueryValue[]): QueryNode => ({ kind: 'field', field, values }),
+  exclude: (field: string, ...values: QueryValue[]): QueryNode => ({ kind: 'field', field, values, exclude: true }),
+  range: (field: string, from: QueryValue = q.keyword('*'), to: QueryValue = q.keyword('*')): QueryNode =>
+    ({ kind: 'range', field, from, to }),
+  has: (field: string): QueryNode => ({ kind: 'has', field }),
+  hasNo: (field: string): QueryNode => ({ kind: 'has', field, negate: true }),
+  tag: (...tags: string[]): QueryNode => ({ kind: 'tag', tags }),
+  and: (...nodes: Array<QueryNode | null | undefined | false>): QueryNode =>
+    ({ kind: 'and', nodes: nodes.filter(Boolean) as QueryNode[] }),
+  or: (...nodes: Array<QueryNode | null | undefined | false>): QueryNode =>
+    ({ kind: 'or', nodes: nodes.filter(Boolean) as QueryNode[] }),
+  // Hand-written query (e.g. the user's custom query); kept isolated in parentheses
+  raw: (query: string): QueryNode => ({ kind: 'raw', query }),
+  keyword: (keyword: string): QueryKeyword => ({ keyword })
+};
+
+function compileNode(node: QueryNode, nested: boolean): string {
+  switch (node.kind) {
+    case 'field': {
+      if (node.values.length === 0) return '';
+      const prefix = node.exclude ? '-' : '';
+      return `${compileField(node.field)}: ${node.values.map(value => prefix + compileValue(value)).join(', ')}`;
+    }
+    case 'range':
+      return `${compileField(node.field)}: ${compileValue(node.from)} .. ${compileValue(node.to)}`;
+    case 'has':
+      return `has: ${node.negate ? '-' : ''}${braced(node.field, PLAIN_FIELD)}`;
+    case 'tag':
+      return node.tags.length === 0 ? '' : `tag: ${node.tags.map(tag => braced(tag, PLAIN_VALUE)).join(', ')}`;
+    case 'raw': {
+      const query = node.query.trim();
+      return query && nested ? `(${query})` : query;
+    }
+    case 'and': {
+      // Juxtaposition is YouTrack's tightest-binding AND
+      const parts = node.nodes.map(child => compileNode(child, true)).filter(Boolean);
+      const query = parts.join(' ');
+      return nested && parts.length > 1 && node.nodes.some(child => child.kind === 'or') ? `(${query})` : query;
+    }
+    case 'or': {
+      const parts = node.nodes.map(child => compileNode(child, true)).filter(Boolean);
+      const query = parts.join(' or ');
+      return nested && parts.length > 1 ? `(${query})` : query;
+    }
+  }
+}
+
+/**
+ * Compile a query AST into YouTrack search syntax
+ */
+export function compileQuery(node: QueryNode): string {
+  return compileNode(node, false);
+}
+
+/**
+ * Server-side part of the widget filter: projects, time range and custom query.
+ * Users, statuses and stale timers stay client-side: timer owners and statuses live inside
+ * the Timer Hash Data value, which YouTrack cannot search
+ */
+export function filterConfigToQuery(filter: FilterConfig = {}, now: number = Date.now()): QueryNode {
+  return q.and(
+    filter.projects?.length ? q.field('project', ...filter.projects) : null,
+    filter.timeRange ? timeRangeToQuery(filter.timeRange, now) : null,
+    filter.customQuery?.trim() ? q.raw(filter.customQuery) : null
+  );
+}
+
+/**
+ * A timer started in the range writes Timer Hash Data, so its issue was updated in the range too
+ */
+function timeRangeToQuery(timeRange: NonNullable<FilterConfig['timeRange']>, now: number): QueryNode | null {
+  switch (timeRange.type) {
+    case 'last_hours':
+      return timeRange.value ? q.range('updated', new Date(now - timeRange.value * MS_PER_HOUR)) : null;
+    case 'last_days':
+      return timeRange.value ? q.range('updated', new Date(now - timeRange.value * 24 * MS_PER_HOUR)) : null;
+    case 'custom':
+      return timeRange.start || timeRange.end
+        ? q.range(
+          'updated',
+          timeRange.start ? new Date(timeRange.start) : undefined,
+          timeRange.end ? new Date(timeRange.end) : undefined
+        )
+        : null;
+  }
+}
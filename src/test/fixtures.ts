@@ -0,0 +1,68 @@
+/**
+ * Shared test fixtures
+ * Builders for the widget data shapes, so a type change is fixed in one place
+ */
+
+import { TimerEntry } from '../types';
+
+/**
+ * Running timer with neutral defaults; tests override only what they check
+ */
+export function timerEntry(overrides: Partial<TimerEntry> = {}): TimerEntry {
+  const username = overrides.username || 'alice';
+  const issueKey = overrides.issueKey || 'WEB-1';
+  const issueId = overrides.issueId || issueKey;
+
+  return {
+    id: `${issueId}_${username}`,
+    username,
+    issueId,
+    issueKey,
+    issueSummary: issueKey,
+    startTime: 0,
+    elapsedMs: 0,
+    wallElapsedMs: 0,
+    status: 'ok',
+    issueUrl: `/issue/${issueKey}`,
+    projectName: 'Web',
+    projectShortName: 'WEB',
+    lastUpdated: 0,
+    ...overrides
+  };
+}
+
+const HOUR = 60 * 60 * 1000;
+const PAUSED_NOW = Date.UTC(2024, 2, 11, 15);
+
+/**
+ * Timer Hash Data read by both the widget parser and backend.js, with the elapsed time each side must
+ * report at `now`: a paused timer stops at `pausedAt`, and without one its open segment is not counted
+ */
+export const PAUSED_TIMERS_FIXTURE = {
+  now: PAUSED_NOW,
+  timerHashData: {
+    version: 2,
+    timers: {
+      running: { start: PAUSED_NOW - 2 * HOUR },
+      pausedAt: { start: PAUSED_NOW - 5 * HOUR, paused: true, pausedAt: PAUSED_NOW - 4 * HOUR },
+      noPausedAt: { start: PAUSED_NOW - 5 * HOUR, paused: true },
+      resumed: {
+        start: PAUSED_NOW - 5 * HOUR,
+        segments: [{ start: PAUSED_NOW - 5 * HOUR, end: PAUSED_NOW - 4 * HOUR }, { start: PAUSED_NOW - 2 * HOUR }],
+        paused: true,
+        pausedAt: PAUSED_NOW - HOUR
+      },
+      closedSegments: {
+        start: PAUSED_NOW - 3 * HOUR,
+        segments: [{ start: PAUSED_NOW - 3 * HOUR, end: PAUSED_NOW - 2 * HOUR }]
+      }
+    }
+  },
+  expected: {
+    running: { elapsedMs: 2 * HOUR, status: 'attention' },
+    pausedAt: { elapsedMs: HOUR, status: 'paused' },
+    noPausedAt: { elapsedMs: 0, status: 'paused' },
+    resumed: { elapsedMs: 2 * HOUR, status: 'paused' },
+    closedSegments: { elapsedMs: HOUR, status: 'paused' }
+  } as Record<string, { elapsedMs: number; status: string }>
+};
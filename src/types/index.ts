@@ -54,6 +54,7 @@ export interface YouTrackUser {
   id: string;
   login: string;
   fullName: string;
+  name?: string; // Display name
   email?: string;
   jabberAccountName?: string;
   ringId?: string;
@@ -119,7 +120,59 @@ export interface YouTrackProjectCustomField {
  * Timer Hash Data structure - maps usernames to timestamps
  */
 export interface TimerHashData {
-  [username: string]: string; // ISO timestamp or Unix timestamp as string
+  [username: string]: string | number | TimerHashPayload; // ISO timestamp, Unix seconds/milliseconds or nested payload
+}
+
+/**
+ * Nested timer payload written by newer workflow scripts (schema v2)
+ */
+export interface TimerHashPayload {
+  start: string | number;
+  workType?: string;
+  paused?: boolean;
+  pausedAt?: string | number;
+  segments?: Array<{ start: string | number; end?: string | number | null }>;
+  [key: string]: unknown;
+}
+
+/**
+ * Timer successfully extracted from Timer Hash Data
+ */
+export interface ParsedTimer {
+  username: string;
+  userId?: string; // Account id (YouTrack id or Hub ringId) from the nested payload; survives login renames
+  startTime: number; // Unix timestamp in milliseconds
+  workType?: string;
+  paused?: boolean;
+  segments: TimerSegment[]; // Running intervals; a single open segment for plain timestamps
+  payload?: TimerHashPayload; // Original nested payload, when present
+}
+
+/**
+ * Reason a Timer Hash Data value (or one of its entries) was rejected
+ */
+export type TimerParseDiagnosticCode =
+  | 'INVALID_JSON'
+  | 'INVALID_ROOT'
+  | 'UNSUPPORTED_VERSION'
+  | 'EMPTY_USERNAME'
+  | 'INVALID_ENTRY'
+  | 'MISSING_START'
+  | 'INVALID_SEGMENT'
+  | 'INVALID_TIMESTAMP'
+  | 'TIMESTAMP_OUT_OF_RANGE'
+  | 'MISSING_PAUSE_TIME'; // Timer kept, but its open segment is not counted
+
+/**
+ * Diagnostic entry describing rejected Timer Hash Data
+ */
+export interface TimerParseDiagnostic {
+  issueId: string;
+  issueKey?: string;
+  username?: string;
+  code: TimerParseDiagnosticCode;
+  message: string;
+  rawValue?: string; // Truncated raw value for display
 }
 
 /**
@@ -132,9 +185,14 @@ export interface IssueWithTimer {
   project: YouTrackProject;
   numberInProject: number;
   timerHashData: TimerHashData;
+  parsedTimers?: ParsedTimer[];
+  timerSchemaVersion?: number;
+  timerDiagnostics?: TimerParseDiagnostic[];
   assignees?: YouTrackUser[];
   created: number;
   updated: number;
+  resolved?: number; // Resolution timestamp, set when the issue is resolved
+  estimationMs?: number; // Value of the "Estimation" period field
   priority?: string;
   state?: string;
   tags?: YouTrackTag[];
@@ -152,7 +210,12 @@ export interface TimerEntry {
   issueSummary: string;
   issueDescription?: string;
   startTime: number; // Unix timestamp
-  elapsedMs: number;
+  elapsedMs: number; // Effective elapsed time according to the elapsed mode used when processing
+  wallElapsedMs: number; // Wall-clock running time since start, paused intervals excluded
+  workingElapsedMs?: number; // Running time inside working hours (only when a work calendar is provided)
+  pausedMs?: number; // Time spent paused since start
+  paused?: boolean;
+  segments?: TimerSegment[]; // Running intervals (start/pause/resume)
   status: TimerStatus;
   issueUrl: string;
   projectName: string;
@@ -160,15 +223,148 @@ export interface TimerEntry {
   priority?: string;
   state?: string;
   worktype?: string;
+  worktypeSource?: 'payload' | 'comment'; // Where the work type was resolved from
+  worktypeValid?: boolean; // Whether it matches a configured work item type (undefined when types are unknown)
   assignees?: string[];
   tags?: YouTrackTag[];
+  issueResolved?: number; // Resolution timestamp of the issue, if resolved
+  projectArchived?: boolean;
+  anomaly?: TimerAnomaly; // Comparison with the user's own work item history
+  estimation?: TimerEstimation; // Estimate vs. actual for the timer's issue
+  identity?: UserIdentity; // Account behind the timer's username (when identities were resolved)
   lastUpdated: number;
 }
 
+/**
+ * How a Timer Hash Data key was matched to a YouTrack account
+ */
+export type IdentityMatch = 'login' | 'id' | 'email' | 'none';
+
+/**
+ * YouTrack account behind a Timer Hash Data key
+ */
+export interface UserIdentity {
+  key: string; // Username as written in Timer Hash Data
+  userId?: string;
+  login: string; // Current login; differs from the key after a rename
+  fullName: string;
+  avatarUrl?: string;
+  email?: string;
+  groups: string[];
+  banned: boolean;
+  renamed: boolean;
+  matchedBy: IdentityMatch;
+}
+
+/**
+ * How far an issue's actual time is from its estimate
+ */
+export type EstimationStatus = 'no_estimate' | 'on_track' | 'at_risk' | 'overrun';
+
+/**
+ * Estimate vs. actual for the issue of a running timer
+ */
+export interface TimerEstimation {
+  estimateMs?: number;
+  spentMs: number; // Time already logged in work items
+  runningMs: number; // This timer's running time (0 for stale timers)
+  issueRunningMs: number; // Running time of every active, non-stale timer on the issue
+  consumedPercent?: number; // (spent + issue running) / estimate * 100
+  status: EstimationStatus;
+}
+
+/**
+ * Estimate vs. actual totals per project (issues with an estimate only)
+ */
+export interface ProjectEstimationStats {
+  projectShortName: string;
+  issueCount: number;
+  estimateMs: number;
+  actualMs: number;
+  overrunMs: number; // Sum of the time past the estimate on overrun issues
+  overrunIssues: number;
+}
+
+/**
+ * Distribution of a user's past session durations (from work items)
+ */
+export interface DurationBaseline {
+  sampleCount: number;
+  medianMs: number;
+  q1Ms: number;
+  q3Ms: number;
+  samplesMs: number[]; // Sorted ascending, used for percentiles
+}
+
+/**
+ * Per-user (and per user + work type) duration baselines
+ */
+export interface DurationBaselines {
+  byUser: Record<string, DurationBaseline>;
+  byUserWorktype: Record<string, DurationBaseline>; // Keyed by "username::worktype"
+}
+
+/**
+ * Anomaly score of a running timer against the user's baseline
+ */
+export interface TimerAnomaly {
+  score: number; // Robust z-score: (elapsed - median) / (IQR / 1.349)
+  percentile: number; // 0-100, share of past sessions shorter than or equal to this timer
+  baseline: 'user_worktype' | 'user';
+  sampleCount: number;
+  medianMs: number;
+  unusual: boolean; // Score above the configured anomaly threshold
+}
+
 /**
  * Timer status enumeration based on elapsed time
  */
-export type TimerStatus = 'ok' | 'attention' | 'long' | 'critical';
+export type TimerStatus = 'ok' | 'attention' | 'long' | 'critical' | 'paused' | 'stale';
+
+/**
+ * Running interval of a timer; an open segment (no end) is still running
+ */
+export interface TimerSegment {
+  start: number; // Unix timestamp in milliseconds
+  end?: number;
+}
+
+/**
+ * Options that control how raw timer hash data becomes timer entries
+ */
+export interface TimerProcessingOptions {
+  now?: number; // Reference timestamp, defaults to Date.now()
+  alertConfig?: AlertConfig;
+  elapsedMode?: ElapsedTimeMode;
+  workCalendar?: WorkCalendarConfig;
+  durationBaselines?: DurationBaselines; // Enables anomaly scoring against each user's history
+  spentTimeByIssue?: Record<string, number>; // Logged time per issue id (ms), for estimate comparison
+  timerLogs?: TimerEvent[]; // Timer events used to resolve work types of running timers
+  workItemTypes?: WorkItemTypeRef[]; // Configured work item types used to validate work types
+}
+
+/**
+ * Work item type reference as configured in time tracking settings
+ */
+export interface WorkItemTypeRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * Which elapsed time drives statuses and statistics
+ */
+export type ElapsedTimeMode = 'wall' | 'working';
+
+/**
+ * Working calendar used to compute elapsed working time
+ */
+export interface WorkCalendarConfig {
+  hoursADay: number;
+  workDays: number[]; // JS day indexes (0 = Sunday ... 6 = Saturday)
+  workdayStartHour: number; // Local hour the working day starts
+  holidays: string[]; // Local dates in YYYY-MM-DD format
+}
 
 /**
  * Timer statistics for dashboard summary
@@ -179,11 +375,70 @@ export interface TimerStats {
   criticalTimers: number;
   longTimers: number;
   attentionTimers: number;
+  pausedTimers: number;
+  staleTimers: number; // Timers on resolved issues or archived projects
+  unusualTimers: number; // Timers flagged as anomalous for their user
   totalTimeMs: number;
   averageTimeMs: number;
   longestTimerMs: number;
   projectBreakdown: ProjectTimerStats[];
   userBreakdown: UserTimerStats[];
+  worktypeBreakdown: WorktypeTimerStats[];
+  issueBreakdown: IssueTimerStats[];
+}
+
+/**
+ * Timer statistics per issue (several users can time the same issue)
+ */
+export interface IssueTimerStats {
+  issueId: string;
+  issueKey: string;
+  issueSummary: string;
+  projectShortName: string;
+  timerCount: number;
+  contributors: string[];
+  concurrentContributors: number; // Contributors whose timer is currently running (not paused or stale)
+  totalTimeMs: number; // Combined running time of all timers on the issue
+  firstStartTime: number;
+  lastStartTime: number;
+  criticalCount: number;
+}
+
+/**
+ * Kind of data integrity problem found in live timers
+ */
+export type IntegrityFindingKind = 'multi_issue_user' | 'orphaned_timer' | 'banned_user' | 'unknown_user';
+
+/**
+ * Data integrity problem affecting one user's timers
+ */
+export interface IntegrityFinding {
+  kind: IntegrityFindingKind;
+  severity: 'warning' | 'error';
+  username: string;
+  timerIds: string[];
+  issueKeys: string[];
+}
+
+/**
+ * Result of running the integrity checks over timer entries
+ */
+export interface IntegrityReport {
+  findings: IntegrityFinding[];
+  checkedTimers: number;
+  usersChecked: boolean; // False when the user list was unavailable (banned/unknown checks skipped)
+}
+
+/**
+ * Timer statistics per work type
+ */
+export interface WorktypeTimerStats {
+  worktype: string | null; // null groups timers without a resolved work type
+  valid?: boolean; // Matches a configured work item type
+  timerCount: number;
+  totalTimeMs: number;
+  averageTimeMs: number;
+  users: string[];
 }
 
 /**
@@ -214,6 +469,92 @@ export interface UserTimerStats {
   projects: string[];
 }
 
+/**
+ * Where the numbers of a trend point come from
+ */
+export type TrendSource = 'activity_history' | 'timer_logs' | 'work_items';
+
+/**
+ * One bucket of a timer activity trend
+ */
+export interface TrendPoint {
+  label: string;
+  count: number;
+  avgDuration: number;
+  timestamp: string; // Start of the bucket
+  starts?: number;
+  stops?: number;
+  totalDuration?: number;
+  gap?: boolean; // No source covers the bucket: unknown, not zero
+  source?: TrendSource;
+}
+
+/**
+ * The trend series shown by the widget
+ */
+export type TrendSeriesName = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'calendarWeeks';
+
+/**
+ * Calendar trend buckets are aligned to
+ */
+export interface TrendCalendar {
+  timeZone?: string; // IANA zone, e.g. "America/Sao_Paulo"; the browser zone when missing
+  locale?: string; // BCP 47 tag for labels, e.g. "pt-BR"; the browser locale when missing
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+}
+
+/**
+ * Everything the analytics widget renders
+ */
+export interface AnalyticsData {
+  timers: TimerEntry[];
+  stats: TimerStats;
+  diagnostics: TimerParseDiagnostic[]; // Rejected Timer Hash Data entries
+  integrity: IntegrityReport;
+  hiddenTimers: number; // Timers hidden by the filter (e.g. stale ones)
+  trends: Record<TrendSeriesName, TrendPoint[]>;
+}
+
+/**
+ * Last successful AnalyticsData, persisted through the widget cache
+ */
+export interface AnalyticsSnapshot {
+  version: number;
+  savedAt: number;
+  data: AnalyticsData;
+}
+
+/**
+ * Work item totals for one user, project or work type
+ */
+export interface WorkItemRollupEntry {
+  key: string;
+  count: number;
+  totalMinutes: number;
+}
+
+/**
+ * Work items of a range, aggregated by the app backend
+ */
+export interface WorkItemRollup {
+  count: number;
+  totalMinutes: number;
+  byUser: WorkItemRollupEntry[];
+  byProject: WorkItemRollupEntry[];
+  byType: WorkItemRollupEntry[];
+  byDay: WorkItemRollupEntry[]; // Keyed by calendar day (YYYY-MM-DD)
+  baselines: DurationBaselines;
+}
+
+/**
+ * Response of the app backend `analytics` handler
+ */
+export interface BackendAnalytics {
+  range: { from: number; to: number };
+  workItems: WorkItemRollup;
+  generatedAt: number;
+}
+
 // =================== CACHE SYSTEM TYPES ===================
 
 /**
@@ -266,14 +607,175 @@ export interface YouTrackAPIConfig {
   retryDelay?: number;
   rateLimit?: RateLimitConfig;
   cache?: CacheConfig;
+  pagination?: PaginationConfig;
+  sync?: TimerSyncConfig;
+  transport?: Transport; // Defaults to the widget host when available, token-based REST otherwise
+  timerEvents?: TimerEventSource[]; // Defaults to the Timer Hash Data history plus the pt-BR workflow comments
+}
+
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+  endpoint: string; // Relative to the REST API root, e.g. "issues?query=..."
+  method: NonNullable<APIRequestOptions['method']>;
+  headers?: Record<string, string>;
+  body?: any;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Successful transport response (failures are thrown as ApiError/NetworkError/PermissionError)
+ */
+export interface TransportResponse<T = any> {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * How the API client reaches the server
+ */
+export interface Transport {
+  readonly name: string; // Identifies the target, also used to keep coalesced requests apart
+  request<T>(request: TransportRequest, requestId?: string): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Timer actions recorded by the timer workflows
+ */
+export type TimerEventType =
+  | 'timer_started'
+  | 'timer_stopped'
+  | 'timer_canceled'
+  | 'timer_auto_canceled'
+  | 'timer_blocked'
+  | 'timer_duplicate'
+  | 'unknown';
+
+/**
+ * One timer action on an issue, whatever source it was read from
+ */
+export interface TimerEvent {
+  id: string; // Stable across refreshes; events with the same id from several sources are merged
+  type: TimerEventType;
+  created: number;
+  author?: { login: string; fullName?: string };
+  issueId: string;
+  issueKey: string;
+  issueSummary: string;
+  projectShortName: string;
+  workType?: string;
+  duration?: string; // As written by the workflow, e.g. "1h 5min"
+  durationMs?: number;
+  reason?: string;
+  source: string; // Name of the TimerEventSource that produced it
+}
+
+/**
+ * Time window of a timer event read
+ */
+export interface TimerEventRange {
+  since: number;
+  until: number;
+}
+
+/**
+ * Server access handed to timer event sources by the API client
+ */
+export interface TimerEventContext {
+  fetchIssues<T = any>(query: string, fields: string): Promise<T[]>;
+  fetchActivities<T = any>(request: TimerActivityRequest): Promise<T[]>;
+}
+
+/**
+ * Activities read by timer event sources, oldest first
+ */
+export interface TimerActivityRequest {
+  categories: string; // e.g. "CustomFieldCategory"
+  fields: string;
+  issueQuery?: string;
+  range: TimerEventRange;
+}
+
+/**
+ * One run of a timer rebuilt from the Timer Hash Data history
+ */
+export interface TimerInterval {
+  issueId: string;
+  issueKey: string;
+  username: string;
+  start: number;
+  end?: number; // Missing while the timer is still running
+  workType?: string;
+}
+
+/**
+ * Where timer events are read from (workflow comments, a dedicated custom field, ...)
+ */
+export interface TimerEventSource {
+  readonly name: string;
+  fetchEvents(range: TimerEventRange, context: TimerEventContext): Promise<TimerEvent[]>;
+}
+
+/**
+ * Incremental timer sync configuration
+ */
+export interface TimerSyncConfig {
+  reconcileIntervalMs: number; // Full re-download that catches issues which left the query
+  overlapMs: number; // Window re-read before the watermark on every incremental sync
+}
+
+/**
+ * Result of syncing the local snapshot of issues with timers
+ */
+export interface TimerSyncResult {
+  issues: IssueWithTimer[]; // Whole snapshot after the sync
+  mode: 'full' | 'incremental';
+  changed: number; // Issues with timers downloaded by this sync
+  removed: number; // Issues dropped because their timer data is gone
+  watermark: number; // Highest `updated` timestamp seen
+  syncedAt: number;
+}
+
+/**
+ * Pagination configuration for list endpoints ($skip/$top)
+ */
+export interface PaginationConfig {
+  pageSize: number;
+  concurrency: number; // Pages requested in parallel
+  maxItems: number; // Hard safety cap; results beyond it are dropped and reported as truncated
+}
+
+/**
+ * Per-call pagination options
+ */
+export interface PaginationOptions extends Partial<PaginationConfig> {
+  onProgress?: (progress: PaginationProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress reported after each page is loaded
+ */
+export interface PaginationProgress {
+  page: number; // 1-based index of the page just loaded
+  pageItems: number;
+  loadedItems: number;
+  done: boolean;
+  truncated: boolean; // Safety cap reached before the last page
 }
 
 /**
  * Rate limiting configuration
  */
 export interface RateLimitConfig {
-  maxRequests: number;
+  maxRequests: number; // Token refill rate: maxRequests per windowMs
   windowMs: number;
+  burst?: number; // Bucket size (defaults to maxRequests)
+  maxQueueSize?: number; // Requests waiting for a token beyond this are rejected
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
 }
@@ -300,8 +802,15 @@ export interface APIRequestOptions {
   cacheTtl?: number;
   retries?: number;
   retryDelay?: number;
+  priority?: RequestPriority;
+  signal?: AbortSignal; // Aborts this caller only; a shared in-flight request keeps serving the others
 }
 
+/**
+ * Queue priority of a request waiting for the rate limiter
+ */
+export type RequestPriority = 'interactive' | 'background';
+
 /**
  * API Response wrapper
  */
@@ -365,6 +874,9 @@ export interface WidgetSettings {
   showProjectBreakdown?: boolean;
   showUserBreakdown?: boolean;
   alertConfig?: AlertConfig;
+  elapsedMode?: ElapsedTimeMode;
+  workCalendar?: Partial<WorkCalendarConfig>; // Overrides on top of the user's time tracking profile
+  trendCalendar?: Partial<TrendCalendar>; // Overrides on top of the user's appearance profile
   displayConfig?: DisplayConfig;
   filterConfig?: FilterConfig;
 }
@@ -380,14 +892,21 @@ export interface AlertConfig {
   soundEnabled: boolean;
   browserNotifications: boolean;
   emailNotifications?: boolean;
-  customThresholds?: Record<string, number>; // Per-user custom thresholds
+  customThresholds?: Record<string, Partial<TimerThresholds>>; // Per-user custom thresholds (by username)
+  projectThresholds?: Record<string, Partial<TimerThresholds>>; // Per-project thresholds (by project short name)
+  anomalyThreshold?: number; // Robust z-score above which a timer is unusual for its user
 }
 
+/**
+ * Hour thresholds used to classify a running timer
+ */
+export type TimerThresholds = Pick<AlertConfig, 'attentionThreshold' | 'longThreshold' | 'criticalThreshold'>;
+
 /**
  * Display configuration
  */
 export interface DisplayConfig {
-  groupBy: 'user' | 'project' | 'status' | 'none';
+  groupBy: 'user' | 'project' | 'status' | 'issue' | 'none';
   sortBy: 'time' | 'user' | 'project' | 'issue';
   sortOrder: 'asc' | 'desc';
   showEmptyStates: boolean;
@@ -407,7 +926,7 @@ export interface FilterConfig {
   statuses?: TimerStatus[]; // Timer statuses to include
   timeRange?: TimeRangeFilter;
   customQuery?: string;
-  hideCompleted?: boolean;
+  hideCompleted?: boolean; // Hide stale timers (resolved issues, archived projects)
   hideAssigned?: boolean;
 }
 
@@ -505,6 +1024,43 @@ export interface YouTrackComment {
   attachments?: YouTrackAttachment[];
 }
 
+/**
+ * Custom field change from the activities API (`categories=CustomFieldCategory`)
+ */
+export interface YouTrackActivityItem {
+  id: string;
+  timestamp: number;
+  author?: YouTrackUser;
+  target?: YouTrackIssue;
+  field?: { name?: string; presentation?: string };
+  added: any; // Value after the change: a string for text fields, entities for enum/user fields
+  removed: any; // Value before the change
+}
+
+export interface YouTrackWorkItem {
+  id: string;
+  created: number;
+  updated?: number;
+  date: number; // Day the work was done
+  duration: YouTrackPeriod;
+  author: YouTrackUser;
+  creator?: YouTrackUser;
+  type?: YouTrackWorkItemType;
+  text?: string;
+  issue: YouTrackIssue;
+}
+
+export interface YouTrackWorkItemType {
+  id: string;
+  name: string;
+  autoAttached?: boolean;
+}
+
+export interface YouTrackPeriod {
+  minutes: number;
+  presentation: string;
+}
+
 export interface YouTrackAttachment {
   id: string;
   name: string;
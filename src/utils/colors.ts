@@ -94,6 +94,8 @@ export const STATUS_COLORS = {
   attention: BRAIP_COLORS.orange[600],
   long: BRAIP_COLORS.yellow[600],
   critical: BRAIP_COLORS.red[600],
+  paused: BRAIP_COLORS.blue[600],
+  stale: BRAIP_COLORS.grey[800],
 } as const;
 
 /**
@@ -0,0 +1,63 @@
+/**
+ * Painel de integridade dos dados (timers conflitantes, órfãos ou de usuários inválidos)
+ */
+
+import React, { memo } from 'react';
+import { IntegrityFindingKind, IntegrityReport } from '../../types';
+
+interface DataIntegrityPanelProps {
+  report: IntegrityReport;
+}
+
+const KIND_LABELS: Record<IntegrityFindingKind, string> = {
+  multi_issue_user: 'Timers em várias issues ao mesmo tempo',
+  orphaned_timer: 'Timer ativo em issue resolvida',
+  banned_user: 'Usuário banido com timer ativo',
+  unknown_user: 'Usuário desconhecido no YouTrack'
+};
+
+const DataIntegrityPanel: React.FC<DataIntegrityPanelProps> = memo(({ report }) => {
+  const { findings } = report;
+
+  return (
+    <div className="data-integrity">
+      <div className="data-integrity-header">
+        <h3>🧩 Integridade dos Dados</h3>
+        <span className="threshold-settings-hint">
+          {findings.length === 0
+            ? `Nenhum problema em ${report.checkedTimers} timers`
+            : `${findings.length} ${findings.length === 1 ? 'problema encontrado' : 'problemas encontrados'}`}
+          {!report.usersChecked && ' • lista de usuários indisponível'}
+        </span>
+      </div>
+
+      {findings.length > 0 && (
+        <ul className="data-integrity-list">
+          {findings.map(finding => (
+            <li key={`${finding.kind}_${finding.username}`} className={`data-integrity-item ${finding.severity}`}>
+              <span className="data-integrity-kind">{KIND_LABELS[finding.kind]}</span>
+              <span className="timer-user">👤 {finding.username}</span>
+              <span className="data-integrity-issues">
+                {finding.issueKeys.map(issueKey => (
+                  <a
+                    key={issueKey}
+                    href={`/issue/${issueKey}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="issue-id"
+                  >
+                    {issueKey}
+                  </a>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+DataIntegrityPanel.displayName = 'DataIntegrityPanel';
+
+export default DataIntegrityPanel;
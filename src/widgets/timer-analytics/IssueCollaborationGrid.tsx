@@ -0,0 +1,88 @@
+/**
+ * Grade de issues agrupadas: todos os usuários com timer na mesma issue em um único card
+ */
+
+import React, { useMemo, memo } from 'react';
+import { IssueTimerStats, TimerEntry } from '../../types';
+import { formatDurationHHMM } from '../../services/api';
+import { getCachedProjectColor } from '../../utils/colors';
+
+interface IssueCollaborationGridProps {
+  issues: IssueTimerStats[];
+  timers: TimerEntry[];
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+const IssueCollaborationGrid: React.FC<IssueCollaborationGridProps> = memo(({ issues, timers }) => {
+  const timersByIssue = useMemo(() => {
+    const grouped = new Map<string, TimerEntry[]>();
+    timers.forEach(timer => {
+      grouped.set(timer.issueId, [...(grouped.get(timer.issueId) || []), timer]);
+    });
+    return grouped;
+  }, [timers]);
+
+  return (
+    <div className="active-issues-grid">
+      {issues.map(issue => (
+        <div key={issue.issueId} className="active-issue-card">
+          <div className="issue-header">
+            <div className="issue-header-left">
+              <a
+                href={`/issue/${issue.issueKey}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="issue-id"
+              >
+                {issue.issueKey}
+              </a>
+              <span
+                className="issue-project"
+                style={{ backgroundColor: getCachedProjectColor(issue.projectShortName) }}
+              >
+                {issue.projectShortName}
+              </span>
+            </div>
+            <div className="issue-header-right">
+              {issue.concurrentContributors > 1 && (
+                <span className="status-badge collaboration" title="Timers em andamento ao mesmo tempo">
+                  👥 {issue.concurrentContributors} simultâneos
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="issue-title">
+            {issue.issueSummary}
+          </div>
+
+          <div className="issue-meta">
+            <span className="timer-duration">
+              {formatDurationHHMM(issue.totalTimeMs)}
+              <span className="timer-duration-alt"> combinado</span>
+            </span>
+            <span className="timer-worktype">
+              {issue.firstStartTime === issue.lastStartTime
+                ? `Início ${formatTime(issue.firstStartTime)}`
+                : `Início ${formatTime(issue.firstStartTime)} • último ${formatTime(issue.lastStartTime)}`}
+            </span>
+          </div>
+
+          <div className="issue-contributors">
+            {(timersByIssue.get(issue.issueId) || []).map(timer => (
+              <span key={timer.id} className={`issue-contributor ${timer.status}`}>
+                👤 {timer.username} • {formatDurationHHMM(timer.elapsedMs)}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+IssueCollaborationGrid.displayName = 'IssueCollaborationGrid';
+
+export default IssueCollaborationGrid;
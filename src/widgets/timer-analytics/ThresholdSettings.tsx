@@ -0,0 +1,276 @@
+/**
+ * Painel de configuração dos limites de status dos timers (global, por projeto e por usuário)
+ */
+
+import React, { useState, useCallback, memo } from 'react';
+import { AlertConfig, TimerThresholds } from '../../types';
+import { ThresholdScope, validateAlertConfig } from '../../services/thresholds';
+import { DEFAULT_ANOMALY_THRESHOLD } from '../../services/anomaly';
+
+interface OverrideRow {
+  key: string;
+  attentionThreshold?: number;
+  longThreshold?: number;
+  criticalThreshold?: number;
+}
+
+interface ThresholdSettingsProps {
+  alertConfig: AlertConfig;
+  availableProjects: string[];
+  availableUsers: string[];
+  onSave: (config: AlertConfig) => Promise<void>;
+  onCancel: () => void;
+}
+
+const THRESHOLD_FIELDS: Array<{ key: keyof TimerThresholds; label: string }> = [
+  { key: 'attentionThreshold', label: 'Atenção (h)' },
+  { key: 'longThreshold', label: 'Longo (h)' },
+  { key: 'criticalThreshold', label: 'Crítico (h)' }
+];
+
+const toRows = (overrides?: Record<string, Partial<TimerThresholds>>): OverrideRow[] =>
+  Object.entries(overrides || {}).map(([key, values]) => ({ key, ...values }));
+
+const fromRows = (rows: OverrideRow[]): Record<string, Partial<TimerThresholds>> => {
+  const result: Record<string, Partial<TimerThresholds>> = {};
+
+  rows.forEach(({ key, ...values }) => {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) return;
+
+    const defined = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined && !isNaN(value as number))
+    ) as Partial<TimerThresholds>;
+
+    if (Object.keys(defined).length > 0) {
+      result[trimmedKey] = defined;
+    }
+  });
+
+  return result;
+};
+
+// Chaves repetidas: fromRows ficaria só com a última linha
+const duplicateKeys = (rows: OverrideRow[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  rows.forEach(({ key }) => {
+    const trimmedKey = key.trim();
+    if (seen.has(trimmedKey)) {
+      duplicates.add(trimmedKey);
+    }
+    if (trimmedKey) {
+      seen.add(trimmedKey);
+    }
+  });
+
+  return Array.from(duplicates);
+};
+
+const scopeLabel = ({ username, projectShortName }: ThresholdScope): string => {
+  if (username && projectShortName) return `Usuário ${username} no projeto ${projectShortName}`;
+  if (username) return `Usuário ${username}`;
+  if (projectShortName) return `Projeto ${projectShortName}`;
+  return 'Global';
+};
+
+const parseHours = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const ThresholdSettings: React.FC<ThresholdSettingsProps> = memo(({
+  alertConfig,
+  availableProjects,
+  availableUsers,
+  onSave,
+  onCancel
+}) => {
+  const [globalThresholds, setGlobalThresholds] = useState<TimerThresholds>({
+    attentionThreshold: alertConfig.attentionThreshold,
+    longThreshold: alertConfig.longThreshold,
+    criticalThreshold: alertConfig.criticalThreshold
+  });
+  const [projectRows, setProjectRows] = useState<OverrideRow[]>(toRows(alertConfig.projectThresholds));
+  const [userRows, setUserRows] = useState<OverrideRow[]>(toRows(alertConfig.customThresholds));
+  const [anomalyThreshold, setAnomalyThreshold] = useState<number | undefined>(
+    alertConfig.anomalyThreshold ?? DEFAULT_ANOMALY_THRESHOLD
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = useCallback(async () => {
+    const projectThresholds = fromRows(projectRows);
+    const customThresholds = fromRows(userRows);
+
+    const duplicateScopes: ThresholdScope[] = [
+      ...duplicateKeys(projectRows).map(projectShortName => ({ projectShortName })),
+      ...duplicateKeys(userRows).map(username => ({ username }))
+    ];
+
+    // Validar os limites já combinados (usuário > projeto > global), inclusive usuário dentro de cada projeto
+    const validationErrors = [
+      ...duplicateScopes.map(scope => `${scopeLabel(scope)}: aparece em mais de uma linha`),
+      ...validateAlertConfig({ ...alertConfig, ...globalThresholds, projectThresholds, customThresholds })
+        .map(({ scope, message }) => `${scopeLabel(scope)}: ${message}`)
+    ];
+
+    if (anomalyThreshold === undefined || anomalyThreshold <= 0) {
+      validationErrors.push('Anomalia: o score mínimo deve ser maior que zero');
+    }
+
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        ...alertConfig,
+        ...globalThresholds,
+        projectThresholds,
+        customThresholds,
+        anomalyThreshold
+      });
+    } catch (error) {
+      setErrors([`Falha ao salvar configuração: ${(error as Error).message}`]);
+    } finally {
+      setSaving(false);
+    }
+  }, [alertConfig, globalThresholds, projectRows, userRows, anomalyThreshold, onSave]);
+
+  const renderOverrideRows = (
+    rows: OverrideRow[],
+    setRows: React.Dispatch<React.SetStateAction<OverrideRow[]>>,
+    suggestions: string[],
+    listId: string,
+    placeholder: string
+  ) => (
+    <>
+      <datalist id={listId}>
+        {suggestions.map(suggestion => (
+          <option key={suggestion} value={suggestion} />
+        ))}
+      </datalist>
+      {rows.map((row, rowIndex) => (
+        <div key={rowIndex} className="threshold-row">
+          <input
+            className="threshold-key-input"
+            list={listId}
+            placeholder={placeholder}
+            value={row.key}
+            onChange={(e) => setRows(prev => prev.map((r, i) => i === rowIndex ? { ...r, key: e.target.value } : r))}
+          />
+          {THRESHOLD_FIELDS.map(field => (
+            <input
+              key={field.key}
+              className="threshold-input"
+              type="number"
+              min="0"
+              step="0.5"
+              placeholder={String(globalThresholds[field.key])}
+              value={row[field.key] ?? ''}
+              onChange={(e) => setRows(prev => prev.map((r, i) =>
+                i === rowIndex ? { ...r, [field.key]: parseHours(e.target.value) } : r
+              ))}
+            />
+          ))}
+          <button
+            type="button"
+            className="threshold-remove-button"
+            onClick={() => setRows(prev => prev.filter((_, i) => i !== rowIndex))}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="threshold-add-button"
+        onClick={() => setRows(prev => [...prev, { key: '' }])}
+      >
+        + Adicionar
+      </button>
+    </>
+  );
+
+  return (
+    <div className="threshold-settings">
+      <div className="threshold-settings-header">
+        <h3>⚙️ Limites de Status</h3>
+        <span className="threshold-settings-hint">
+          Usuário tem prioridade sobre projeto, que tem prioridade sobre o global
+        </span>
+      </div>
+
+      <div className="threshold-section">
+        <h4>Global</h4>
+        <div className="threshold-row">
+          {THRESHOLD_FIELDS.map(field => (
+            <label key={field.key} className="threshold-label">
+              {field.label}
+              <input
+                className="threshold-input"
+                type="number"
+                min="0"
+                step="0.5"
+                value={globalThresholds[field.key]}
+                onChange={(e) => setGlobalThresholds(prev => ({
+                  ...prev,
+                  [field.key]: parseHours(e.target.value) ?? 0
+                }))}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="threshold-section">
+        <h4>Anomalia</h4>
+        <label className="threshold-label">
+          Incomum a partir do score (desvios acima da mediana do usuário)
+          <input
+            className="threshold-input"
+            type="number"
+            min="0"
+            step="0.5"
+            value={anomalyThreshold ?? ''}
+            onChange={(e) => setAnomalyThreshold(parseHours(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <div className="threshold-section">
+        <h4>Por Projeto</h4>
+        {renderOverrideRows(projectRows, setProjectRows, availableProjects, 'threshold-projects', 'Projeto (ex: BP)')}
+      </div>
+
+      <div className="threshold-section">
+        <h4>Por Usuário</h4>
+        {renderOverrideRows(userRows, setUserRows, availableUsers, 'threshold-users', 'Login do usuário')}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="threshold-errors">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="threshold-actions">
+        <button type="button" onClick={onCancel} className="refresh-button" disabled={saving}>
+          Cancelar
+        </button>
+        <button type="button" onClick={handleSave} className="refresh-button" disabled={saving}>
+          {saving ? 'Salvando...' : 'Salvar'}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+ThresholdSettings.displayName = 'ThresholdSettings';
+
+export default ThresholdSettings;
@@ -2,42 +2,87 @@
  * Timer Analytics Widget - Versão Simplificada sem Web Worker
  */
 
-import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, memo } from 'react';
 import { Chart as ChartJS, registerables } from 'chart.js';
 import { Bar, Line, Doughnut } from 'react-chartjs-2';
-import { YouTrackAPI, processTimerData, calculateStats, formatDuration, formatDurationHHMM, formatDurationToHoursMinutes, msToHours, formatHoursForChart } from '../../services/api';
-import { TimerEntry, TimerStats } from '../../types';
+import { endOfDay, format, isToday, parseISO, startOfDay, subDays } from 'date-fns';
+import { YouTrackAPI, UserSummary, WorkItem, processTimerData, calculateStats, calculateIssueBreakdown, collectTimerDiagnostics, formatDuration, formatDurationHHMM, formatDurationToHoursMinutes, msToHours, formatHoursForChart } from '../../services/api';
+import { AlertConfig, AnalyticsData, AnalyticsSnapshot, DisplayConfig, ElapsedTimeMode, TimerEntry, TimerEvent, TrendCalendar, TrendPoint, TrendSource, WidgetSettings, WorkCalendarConfig, WorkItemTypeRef, YouTrackAppearanceProfile, YouTrackTimeTrackingProfile } from '../../types';
 import { Logger } from '../../services/logger';
+import { globalErrorHandler } from '../../services/errorHandler';
+import { ANALYTICS_SNAPSHOT_FALLBACK, AnalyticsSnapshotFallback, readAnalyticsSnapshot, storeAnalyticsSnapshot } from '../../services/analyticsSnapshot';
+import { loadWidgetSettings, saveWidgetSettings, mergeWidgetSettings, DEFAULT_DISPLAY_CONFIG } from '../../services/widgetSettings';
+import { workCalendarFromProfile } from '../../services/workCalendar';
+import { detectTimerConflicts } from '../../services/integrity';
+import { applyFilterConfig } from '../../services/timerFilters';
+import { attachIdentities, IdentityResolver } from '../../services/identity';
+import { buildDurationBaselines } from '../../services/anomaly';
+import { calculateProjectEstimations } from '../../services/estimation';
+import { buildTrends, timerEventTrendSource, trendCalendarFromProfile, workItemDayTrendSource, workItemTrendSource } from '../../services/trends';
 import { getProjectColor, getCachedProjectColor, getChartColorsForProjects, getStatusColor, clearProjectColorCache } from '../../utils/colors';
 import '../../styles/colors.css';
+import ThresholdSettings from './ThresholdSettings';
+import WorkCalendarSettings from './WorkCalendarSettings';
+import TrendCalendarSettings from './TrendCalendarSettings';
+import TimerDiagnosticsPanel from './TimerDiagnosticsPanel';
+import DataIntegrityPanel from './DataIntegrityPanel';
+import IssueCollaborationGrid from './IssueCollaborationGrid';
 import './TimerAnalytics.css';
 
 // Register Chart.js components
 ChartJS.register(...registerables);
 
-// Analytics Data Interface
-interface TrendPoint {
-  label: string;
-  count: number;
-  avgDuration: number;
-  timestamp: string;
-  // Campos adicionais para análise histórica
-  starts?: number;
-  stops?: number;
-  totalDuration?: number;
+// Dados que não dependem dos timers em andamento
+interface AuxiliaryData {
+  users: UserSummary[];
+  workItems: WorkItem[] | null; // null quando o backend do app agrega os work items
+  profile: YouTrackTimeTrackingProfile | null;
+  appearance: YouTrackAppearanceProfile | null; // Fuso horário das tendências
+  workItemTypes: WorkItemTypeRef[];
+  logs: TimerEvent[];
+  logsRange: { since: number; until: number } | null; // Período lido; null quando a busca falhou (sem dados ≠ zero)
+  spentTimeByIssue: Record<string, number>;
+  fetchedAt: number;
 }
 
-interface AnalyticsData {
-  timers: TimerEntry[];
-  stats: TimerStats;
-  trends: {
-    hourly: TrendPoint[];
-    daily: TrendPoint[];
-    weekly: TrendPoint[];
-    monthly: TrendPoint[];
-  };
+// A atualização automática rebusca os dados auxiliares após este intervalo
+const AUXILIARY_DATA_TTL_MS = 10 * 60 * 1000;
+
+// Período das tendências e dos work items (baselines)
+const ANALYTICS_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Origem de cada ponto das tendências (tooltip)
+const TREND_SOURCE_LABELS: Record<TrendSource, string> = {
+  activity_history: 'histórico do campo',
+  timer_logs: 'logs de timer',
+  work_items: 'work items'
+};
+
+// Eventos de timer lidos a cada carga (tendências e tipos de trabalho)
+const TIMER_LOGS_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Logs de timer exibidos por página no painel
+const LOG_PAGE_SIZE = 15;
+
+// Período do painel de logs, como valores de <input type="date">
+interface LogDateRange {
+  from: string;
+  to: string;
 }
 
+const defaultLogRange = (): LogDateRange => ({
+  from: format(subDays(new Date(), 6), 'yyyy-MM-dd'),
+  to: format(new Date(), 'yyyy-MM-dd')
+});
+
+// Dias inteiros do período, ou null enquanto ele está incompleto ou invertido
+const logRangeBounds = (range: LogDateRange): { from: number; to: number } | null => {
+  if (!range.from || !range.to) return null;
+
+  const from = startOfDay(parseISO(range.from)).getTime();
+  const to = endOfDay(parseISO(range.to)).getTime();
+  return from > to ? null : { from, to };
+};
 
 interface TimerAnalyticsProps {
   host?: any;
@@ -45,12 +90,12 @@ interface TimerAnalyticsProps {
   showProjectBreakdown?: boolean;
   showUserBreakdown?: boolean;
   showTrends?: boolean;
-  timeRange?: 'hour' | 'day' | 'week' | 'month';
+  timeRange?: 'hour' | 'day' | 'week' | 'month' | 'weeks';
 }
 
 const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
   host,
-  refreshInterval = 30000, // Não usado mais (sem auto-refresh)
+  refreshInterval = 60000, // Padrão da atualização automática (settings.refreshInterval prevalece)
   showProjectBreakdown = true,
   showTrends = true,
   timeRange = 'day'
@@ -62,369 +107,356 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
   const [selectedTimeRange, setSelectedTimeRange] = useState(timeRange);
   const [systemUsers, setSystemUsers] = useState<number>(0);
   const [selectedProject, setSelectedProject] = useState<string>('all');
-  const [timerLogs, setTimerLogs] = useState<any[]>([]);
+  const [timerLogs, setTimerLogs] = useState<TimerEvent[]>([]);
   const [lastLogsUpdate, setLastLogsUpdate] = useState<number>(0);
+  const [loadingProgress, setLoadingProgress] = useState<string | null>(null);
+  // Dados exibidos vindos do snapshot salvo (carga inicial ou YouTrack indisponível)
+  const [snapshotInfo, setSnapshotInfo] = useState<{ savedAt: number; offline: boolean } | null>(null);
+  const snapshotCheckedRef = useRef(false);
+
+  // Configuração persistida do widget (readConfig/storeConfig)
+  const [settings, setSettings] = useState<WidgetSettings>(() => mergeWidgetSettings(null));
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [timeTrackingProfile, setTimeTrackingProfile] = useState<YouTrackTimeTrackingProfile | null>(null);
+  const [appearanceProfile, setAppearanceProfile] = useState<YouTrackAppearanceProfile | null>(null);
+
+  const elapsedMode: ElapsedTimeMode = settings.elapsedMode || 'wall';
+  const groupByIssue = settings.displayConfig?.groupBy === 'issue';
 
   // Filtros para logs
   const [selectedLogProject, setSelectedLogProject] = useState<string>('all');
   const [selectedLogUser, setSelectedLogUser] = useState<string>('all');
+  // Período escolhido no painel; os logs dos últimos 7 dias (tendências) continuam nos dados auxiliares
+  const [logRange, setLogRange] = useState<LogDateRange>(defaultLogRange);
+  const [rangeLogs, setRangeLogs] = useState<TimerEvent[] | null>(null);
+  const logRangeRequestRef = useRef<AbortController | null>(null);
+  const [loadingLogs, setLoadingLogs] = useState(false);
+  const [visibleLogCount, setVisibleLogCount] = useState(LOG_PAGE_SIZE);
 
   const logger = useMemo(() => Logger.getLogger('TimerAnalytics'), []);
 
   const api = useMemo(() => new YouTrackAPI(host), [host]);
+  const identityResolver = useMemo(() => new IdentityResolver(api), [api]);
+
+
+  // Dados auxiliares (usuários, work items, perfil, logs) – a atualização automática reaproveita
+  const auxiliaryDataRef = useRef<AuxiliaryData | null>(null);
+
+  const fetchAuxiliaryData = useCallback(async ({ withWorkItems = true }: { withWorkItems?: boolean } = {}): Promise<AuxiliaryData> => {
+    const now = Date.now();
+    const monthAgo = now - ANALYTICS_RANGE_MS; // 30 dias atrás
+
+    const [users, workItems, profile, appearance, workItemTypes] = await Promise.all([
+      // Todas as páginas, banidos incluídos: quem ficasse de fora seria apontado como usuário desconhecido
+      api.fetchAllUsers(),
+      withWorkItems ? api.fetchWorkItems({ start: monthAgo, end: now }) : Promise.resolve(null),
+      api.fetchTimeTrackingProfile(),
+      api.fetchAppearanceProfile(),
+      api.fetchWorkItemTypes().catch((typesError) => {
+        logger.warn('Failed to fetch work item types, skipping worktype validation', typesError);
+        return [];
+      })
+    ]);
+
+    // Log work items para debug
+    logger.warn('Work items data', {
+      workItemsCount: workItems?.length ?? 'aggregated by backend',
+      workItemsSample: (workItems || []).slice(0, 3).map(wi => ({
+        date: new Date(wi.date || wi.created).toISOString(),
+        duration: wi.duration?.minutes,
+        project: wi.issue?.project?.shortName
+      }))
+    });
+
+    // Fetch timer events from the field history and comments (needed for trends and worktypes)
+    let logs: TimerEvent[] = [];
+    let logsRange: AuxiliaryData['logsRange'] = null;
+    try {
+      const logsFrom = now - TIMER_LOGS_RANGE_MS;
+      logs = await api.fetchTimerLogs({ from: logsFrom, to: now });
+      logsRange = { since: logsFrom, until: now };
+      setLastLogsUpdate(Date.now());
+    } catch (logsError) {
+      logger.error('Failed to fetch timer logs', logsError);
+    }
+    setTimerLogs(logs);
 
+    return { users, workItems, profile, appearance, workItemTypes, logs, logsRange, spentTimeByIssue: {}, fetchedAt: now };
+  }, [api, logger]);
 
-  // Função para calcular tendências baseadas em logs históricos de timer (comentários)
-  const calculateHistoricalTrends = (timerLogs: any[]): AnalyticsData['trends'] => {
-    const now = new Date();
-    const dayNames = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
-
-    console.log('=== DEBUG TRENDS ===');
-    console.log('Total timer logs received:', timerLogs.length);
-    console.log('Sample logs:', timerLogs.slice(0, 5).map(log => ({
-      created: log.created,
-      type: log.type,
-      issueKey: log.issueKey,
-      author: log.author?.login
-    })));
-
-    // Converter UTC para horário do Brasil (GMT-3)
-    const toBrazilTime = (utcDate: Date): Date => {
-      const brazilOffset = -3 * 60; // GMT-3 em minutos
-      const utcTime = utcDate.getTime() + (utcDate.getTimezoneOffset() * 60000);
-      return new Date(utcTime + (brazilOffset * 60000));
-    };
-
-    // Helper para extrair duração em minutos do texto
-    const parseDuration = (durationText: string): number => {
-      if (!durationText) return 0;
-
-      // Patterns: "1h 5min", "25 minutos", "2h", "30min"
-      const hourMatch = durationText.match(/(\d+)h/);
-      const minMatch = durationText.match(/(\d+)\s*min/);
-
-      const hours = hourMatch ? parseInt(hourMatch[1]) : 0;
-      const minutes = minMatch ? parseInt(minMatch[1]) : 0;
-
-      return hours * 60 + minutes;
-    };
-
-    // Agrupar logs por período de tempo
-    const groupLogsByPeriod = (
-      length: number,
-      stepMs: number,
-      labelFormatter: (pointDate: Date, index: number) => string
-    ): TrendPoint[] => {
-      const periods: { [key: string]: { starts: number, stops: number, totalDuration: number, count: number } } = {};
-
-      // Inicializar todos os períodos (usando horário brasileiro)
-      const nowBrazil = toBrazilTime(now);
-      for (let i = 0; i < length; i++) {
-        const pointDate = new Date(nowBrazil.getTime() - (length - 1 - i) * stepMs);
-        const label = labelFormatter(pointDate, i);
-        periods[label] = { starts: 0, stops: 0, totalDuration: 0, count: 0 };
+  // Fetch simplificado; `background` = atualização automática (sem tela de carregamento)
+  const fetchAnalyticsData = useCallback(async ({ background = false }: { background?: boolean } = {}) => {
+    try {
+      if (!background) {
+        setLoading(true);
+        setError(null);
       }
 
-      // Processar cada log
-      timerLogs.forEach(log => {
-        const logDateUTC = new Date(log.created);
-        const logDate = toBrazilTime(logDateUTC); // Converter para horário brasileiro
-        const logTime = logDate.getTime();
-
-        // Encontrar período correspondente (usando horário brasileiro)
-        for (let i = 0; i < length; i++) {
-          const pointDate = new Date(nowBrazil.getTime() - (length - 1 - i) * stepMs);
-          const nextPointDate = new Date(nowBrazil.getTime() - (length - 2 - i) * stepMs);
-
-          if (logTime >= pointDate.getTime() && logTime < (i === length - 1 ? nowBrazil.getTime() : nextPointDate.getTime())) {
-            const label = labelFormatter(pointDate, i);
-
-            if (log.type === 'timer_started') {
-              periods[label].starts++;
-            } else if (log.type === 'timer_stopped') {
-              periods[label].stops++;
-              const duration = parseDuration(log.duration || '');
-              if (duration > 0) {
-                periods[label].totalDuration += duration;
-                periods[label].count++;
-              }
-            }
-            break;
+      const cachedAuxiliary = auxiliaryDataRef.current;
+      const auxiliaryFresh = background && cachedAuxiliary !== null &&
+        Date.now() - cachedAuxiliary.fetchedAt < AUXILIARY_DATA_TTL_MS;
+      // Janela alinhada ao minuto para o cache do backend
+      const rangeEnd = Math.floor(Date.now() / 60000) * 60000;
+
+      const [sync, { backendAnalytics, auxiliary, reuseAuxiliary }] = await Promise.all([
+        // Sincronização incremental: só issues atualizadas desde a última busca
+        api.syncIssuesWithTimers({
+          // Projetos, período e consulta personalizada são filtrados no servidor
+          filter: settings.filterConfig,
+          // Atualização automática cede a vez às requisições interativas
+          priority: background ? 'background' : 'interactive',
+          pagination: {
+            onProgress: ({ loadedItems, done }) => setLoadingProgress(done ? null : `${loadedItems} issues carregadas`)
           }
-        }
-      });
-
-      // Converter para TrendPoint
-      return Object.entries(periods).map(([label, data]) => ({
-        label,
-        count: data.starts, // Apenas timers iniciados
-        avgDuration: data.count > 0 ? data.totalDuration / data.count : 0, // Duração média dos timers parados (para referência)
-        timestamp: new Date().toISOString(), // Timestamp do ponto
-        // Dados extras para análise
-        starts: data.starts,
-        stops: data.stops,
-        totalDuration: data.totalDuration
-      }));
-    };
-
-    return {
-      hourly: groupLogsByPeriod(12, 60 * 60 * 1000, (date) =>
-        `${date.getHours().toString().padStart(2, '0')}:00`
-      ),
-      daily: groupLogsByPeriod(24, 60 * 60 * 1000, (date) =>
-        `${date.getHours().toString().padStart(2, '0')}h`
-      ),
-      weekly: groupLogsByPeriod(7, 24 * 60 * 60 * 1000, (date) =>
-        dayNames[date.getDay()]
-      ),
-      monthly: groupLogsByPeriod(30, 24 * 60 * 60 * 1000, (date) =>
-        `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')}`
-      )
-    };
-  };
-
-  // Função para calcular tendências híbridas: timers atuais (tempo real) + work items (tempo editado)
-  const calculateAdvancedTrends = (workItems: any[], timers: TimerEntry[]): AnalyticsData['trends'] => {
-    const now = new Date();
-    const dayNames = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
-
-    // Função para agrupar dados por período de tempo (abordagem híbrida)
-    const groupDataByPeriod = (
-      length: number,
-      stepMs: number,
-      labelFormatter: (pointDate: Date, index: number) => string
-    ): TrendPoint[] => {
-      const periods: { [key: string]: any[] } = {};
-
-      // Inicializar todos os períodos
-      for (let i = 0; i < length; i++) {
-        const pointDate = new Date(now.getTime() - (length - 1 - i) * stepMs);
-        const label = labelFormatter(pointDate, i);
-        periods[label] = [];
-      }
-
-      // ESTRATÉGIA HÍBRIDA:
-      // 1. Para períodos recentes: usar timers atuais (tempo real)
-      // 2. Para períodos passados: usar work items históricos (tempo editado)
-
-      const currentPeriodIndex = length - 1; // Índice do período mais recente
-      const hybridThreshold = Math.max(1, Math.floor(length * 0.2)); // 20% mais recentes usar timers
-
-      for (let i = 0; i < length; i++) {
-        const pointDate = new Date(now.getTime() - (length - 1 - i) * stepMs);
-        const label = labelFormatter(pointDate, i);
-        const isRecentPeriod = i >= (length - hybridThreshold);
-
-        if (isRecentPeriod) {
-          // PERÍODOS RECENTES: Usar timers atuais (tempo real de execução)
-          const periodStart = new Date(now.getTime() - (length - i) * stepMs);
-          const periodEnd = new Date(now.getTime() - (length - 1 - i) * stepMs);
-
-          timers.forEach(timer => {
-            const timerStartTime = new Date(now.getTime() - timer.elapsedMs);
-
-            // Se o timer estava ativo neste período (tempo real)
-            if (timerStartTime <= periodEnd) {
-              // Simular work item baseado no timer
-              const simulatedWorkItem = {
-                duration: { minutes: Math.floor(timer.elapsedMs / (1000 * 60)) },
-                issue: { project: { shortName: timer.projectShortName } },
-                author: { login: timer.username }
-              };
-              periods[label].push(simulatedWorkItem);
-            }
+        }),
+        (async () => {
+          // Work items agregados no backend do app; null → work items baixados e agregados no navegador
+          const backendAnalytics = await api.fetchBackendAnalytics({
+            from: rangeEnd - ANALYTICS_RANGE_MS,
+            to: rangeEnd,
+            filter: settings.filterConfig,
+            priority: background ? 'background' : 'interactive'
           });
-        } else {
-          // PERÍODOS PASSADOS: Usar work items históricos (tempo editado)
-          const periodStart = new Date(now.getTime() - (length - i) * stepMs);
-          const periodEnd = new Date(now.getTime() - (length - 1 - i) * stepMs);
-
-          // Filtrar work items que poderiam estar neste período
-          const relevantWorkItems = workItems.filter(workItem => {
-            const workItemDate = new Date(workItem.date || workItem.created);
-            // Aceitar work items com datas próximas a este período
-            const daysBetween = Math.abs(workItemDate.getTime() - periodStart.getTime()) / (1000 * 60 * 60 * 24);
-            return daysBetween <= 7; // Aceitar work items até 7 dias de diferença
+          // Sem backend os work items precisam estar no cache auxiliar
+          const reuseAuxiliary = auxiliaryFresh && (backendAnalytics !== null || cachedAuxiliary.workItems !== null);
+          const auxiliary = reuseAuxiliary
+            ? cachedAuxiliary
+            : await fetchAuxiliaryData({ withWorkItems: backendAnalytics === null });
+          return { backendAnalytics, auxiliary, reuseAuxiliary };
+        })()
+      ]);
+      const { issues } = sync;
+      const { users, workItems, profile, appearance, workItemTypes, logs, logsRange } = auxiliary;
+      setTimeTrackingProfile(profile);
+      setAppearanceProfile(appearance);
+
+      // Tempo já lançado nas issues com timer (para comparar com a estimativa) – só o que ainda não se conhece
+      const spentTimeByIssue = { ...(reuseAuxiliary ? auxiliary.spentTimeByIssue : {}) };
+      const pendingIssues = issues.filter(issue => !(issue.id in spentTimeByIssue));
+      if (pendingIssues.length > 0) {
+        try {
+          const fetchedSpentTime = await api.fetchSpentTimeByIssue(
+            pendingIssues.map(issue => `${issue.project.shortName}-${issue.numberInProject}`)
+          );
+          // Issues sem lançamentos ficam com 0 para não serem buscadas de novo
+          pendingIssues.forEach(issue => {
+            spentTimeByIssue[issue.id] = fetchedSpentTime[issue.id] || 0;
           });
-
-          // Distribuir alguns work items para este período
-          const maxItemsForPeriod = Math.min(relevantWorkItems.length, Math.ceil(timers.length * 0.3));
-          const itemsForThisPeriod = relevantWorkItems.slice(0, maxItemsForPeriod);
-
-          periods[label].push(...itemsForThisPeriod);
+        } catch (spentError) {
+          logger.warn('Failed to fetch spent time, estimates compared with running time only', spentError);
         }
       }
-
-      // Converter para TrendPoint[]
-      const result = Object.entries(periods).map(([label, periodWorkItems], index) => {
-        const pointDate = new Date(now.getTime() - (length - 1 - index) * stepMs);
-        const count = periodWorkItems.length;
-        const totalDuration = periodWorkItems.reduce((sum, wi) => {
-          const minutes = wi.duration?.minutes || 0;
-          return sum + (minutes * 60 * 1000); // Converter para ms
-        }, 0);
-        const avgDuration = count > 0 ? totalDuration / count : 0;
-
-        return {
-          label,
-          count,
-          avgDuration,
-          timestamp: pointDate.toISOString()
-        };
+      auxiliaryDataRef.current = { ...auxiliary, spentTimeByIssue };
+
+      // Tempo útil calculado sempre, ao lado do tempo corrido
+      const workCalendar = workCalendarFromProfile(profile, settings.workCalendar);
+      const processedTimers = processTimerData(issues, {
+        alertConfig: settings.alertConfig,
+        elapsedMode,
+        workCalendar,
+        timerLogs: logs,
+        workItemTypes,
+        // Baselines por usuário a partir dos work items dos últimos 30 dias
+        durationBaselines: backendAnalytics ? backendAnalytics.workItems.baselines : buildDurationBaselines(workItems || []),
+        spentTimeByIssue
       });
+      // Logins dos timers → contas (nome, avatar, e-mail, grupos), a partir da lista de usuários já baixada;
+      // logins renomeados seguem pelo id da conta
+      const identities = await identityResolver.resolve(processedTimers, users).catch((identityError) => {
+        logger.warn('Failed to resolve timer identities, showing raw logins', identityError);
+        return new Map();
+      });
+      const allTimers = attachIdentities(processedTimers, identities);
+      // Obsoletos (issues resolvidas/projetos arquivados) saem dos totais quando ocultos
+      const timers = applyFilterConfig(allTimers, settings.filterConfig);
+      // Estatísticas da mesma lista exibida (filtros locais, identidades e tempo útil incluídos)
+      const stats = calculateStats(timers);
 
-      // Log da distribuição para debug
-      console.log(`Hybrid distribution for ${length} periods:`,
-        result.map((r, i) => ({
-          label: r.label,
-          count: r.count,
-          source: i >= (length - Math.max(1, Math.floor(length * 0.2))) ? 'timers(real)' : 'workItems(edited)'
-        })));
+      // Tendências só com dados reais: eventos de timer primeiro, depois work items (locais ou agregados no backend)
+      // Períodos que nenhuma fonte cobre ficam como lacunas, não como zero
+      // Horas, dias e semanas no fuso do usuário (perfil de aparência ou escolhido nas configurações)
+      const trendCalendar = trendCalendarFromProfile(appearance, settings.trendCalendar);
+      const backendDays = backendAnalytics?.workItems.byDay;
+      const trendSources = [
+        ...(logsRange ? [timerEventTrendSource(logs, logsRange)] : []),
+        ...(workItems ? [workItemTrendSource(workItems, { since: auxiliary.fetchedAt - ANALYTICS_RANGE_MS, until: auxiliary.fetchedAt }, trendCalendar)] : []),
+        ...(backendDays ? [workItemDayTrendSource(backendDays, { since: rangeEnd - ANALYTICS_RANGE_MS, until: rangeEnd }, trendCalendar)] : [])
+      ];
+      const trends = buildTrends(trendSources, Date.now(), trendCalendar);
+
+      setSystemUsers(users.filter(user => !user.banned).length);
+      const analyticsData: AnalyticsData = {
+        timers,
+        stats,
+        diagnostics: collectTimerDiagnostics(issues),
+        integrity: detectTimerConflicts(allTimers, { users }),
+        hiddenTimers: allTimers.length - timers.length,
+        trends
+      };
+      setData(analyticsData);
+      setSnapshotInfo(null);
+      storeAnalyticsSnapshot(host, analyticsData);
 
-      return result;
-    };
+    } catch (err) {
+      logger.error('Failed to fetch analytics data', err as Error);
+      // API lenta ou fora do ar: último snapshot salvo no lugar da tela de erro
+      const snapshot = await globalErrorHandler
+        .handleError<AnalyticsSnapshot>(err as Error, { widget: 'TimerAnalytics' }, ANALYTICS_SNAPSHOT_FALLBACK)
+        .catch(() => null);
+      if (snapshot) {
+        setData(snapshot.data);
+        setSnapshotInfo({ savedAt: snapshot.savedAt, offline: true });
+      } else if (!background) {
+        // Falhas da atualização automática mantêm os dados atuais na tela
+        setError('Falha ao carregar dados de analytics');
+      }
+    } finally {
+      setLoading(false);
+      setLoadingProgress(null);
+    }
+  }, [api, host, identityResolver, logger, fetchAuxiliaryData, settings.alertConfig, settings.workCalendar, settings.trendCalendar, settings.filterConfig, elapsedMode]);
 
-    return {
-      hourly: groupDataByPeriod(
-        12,
-        60 * 60 * 1000,
-        (date) => `${date.getHours().toString().padStart(2, '0')}h`
-      ),
-      daily: groupDataByPeriod(
-        24,
-        60 * 60 * 1000,
-        (date) => `${date.getHours().toString().padStart(2, '0')}h`
-      ),
-      weekly: groupDataByPeriod(
-        7,
-        24 * 60 * 60 * 1000,
-        (date) => dayNames[date.getDay()]
-      ),
-      monthly: groupDataByPeriod(
-        30,
-        24 * 60 * 60 * 1000,
-        (date) => `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')}`
-      )
-    };
-  };
+  // Carregar configuração do widget antes da primeira busca
+  useEffect(() => {
+    let cancelled = false;
 
-  // Função de fallback usando timers atuais para gerar tendências básicas
-  const calculateFallbackTrends = (timers: TimerEntry[]): AnalyticsData['trends'] => {
-    const now = new Date();
-    const dayNames = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
-
-    const buildFallbackSeries = (
-      length: number,
-      stepMs: number,
-      labelFormatter: (pointDate: Date, index: number) => string
-    ): TrendPoint[] => {
-      const baseCount = timers.length;
-      const totalDuration = timers.reduce((sum, timer) => sum + timer.elapsedMs, 0);
-      const avgDuration = baseCount > 0 ? totalDuration / baseCount : 0;
-
-      return Array.from({ length }).map((_, index) => {
-        const pointDate = new Date(now.getTime() - (length - 1 - index) * stepMs);
-
-        // Simular alguma variação baseada no índice
-        const variation = 0.8 + (Math.sin(index * 0.5) * 0.4);
-        const count = Math.max(0, Math.round(baseCount * variation));
-
-        return {
-          label: labelFormatter(pointDate, index),
-          count,
-          avgDuration: avgDuration * (0.8 + Math.random() * 0.4),
-          timestamp: pointDate.toISOString()
-        };
-      });
-    };
+    loadWidgetSettings(host).then(loaded => {
+      if (cancelled) return;
+      setSettings(loaded);
+      setSettingsLoaded(true);
+    });
 
-    return {
-      hourly: buildFallbackSeries(
-        12,
-        60 * 60 * 1000,
-        (date) => `${date.getHours().toString().padStart(2, '0')}h`
-      ),
-      daily: buildFallbackSeries(
-        24,
-        60 * 60 * 1000,
-        (date) => `${date.getHours().toString().padStart(2, '0')}h`
-      ),
-      weekly: buildFallbackSeries(
-        7,
-        24 * 60 * 60 * 1000,
-        (date) => dayNames[date.getDay()]
-      ),
-      monthly: buildFallbackSeries(
-        30,
-        24 * 60 * 60 * 1000,
-        (date) => `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')}`
-      )
+    return () => {
+      cancelled = true;
     };
-  };
+  }, [host]);
 
-  // Fetch simplificado
-  const fetchAnalyticsData = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  // Snapshot salvo como fallback quando o YouTrack falha
+  useEffect(() => {
+    globalErrorHandler.registerFallbackProvider(ANALYTICS_SNAPSHOT_FALLBACK, new AnalyticsSnapshotFallback(host));
+  }, [host]);
 
-      const now = Date.now();
-      const monthAgo = now - (30 * 24 * 60 * 60 * 1000); // 30 dias atrás
+  // Carga inicial - recarrega quando os limites mudam
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    // Limpar cache de cores para garantir aplicação das novas cores
+    clearProjectColorCache();
 
-      const [issues, users, workItems] = await Promise.all([
-        api.fetchIssuesWithTimers({ limit: 1000 }),
-        api.fetchUsers({ limit: 1000, banned: false }),
-        api.fetchWorkItems({ start: monthAgo, end: now, limit: 2000 })
-      ]);
+    if (snapshotCheckedRef.current) {
+      fetchAnalyticsData();
+      return;
+    }
 
-      const timers = processTimerData(issues);
-      const stats = calculateStats(timers);
+    // Primeira carga: o último snapshot aparece na hora e os dados reais chegam em segundo plano
+    let cancelled = false;
+    readAnalyticsSnapshot(host).then(snapshot => {
+      if (cancelled) return;
+      snapshotCheckedRef.current = true;
+      if (snapshot) {
+        setData(snapshot.data);
+        setSnapshotInfo({ savedAt: snapshot.savedAt, offline: false });
+        setLoading(false);
+      }
+      fetchAnalyticsData({ background: Boolean(snapshot) });
+    });
 
-      // Log work items para debug
-      logger.warn('Work items data', {
-        workItemsCount: workItems.length,
-        workItemsSample: workItems.slice(0, 3).map(wi => ({
-          date: new Date(wi.date || wi.created).toISOString(),
-          duration: wi.duration?.minutes,
-          project: wi.issue?.project?.shortName
-        }))
-      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchAnalyticsData, settingsLoaded, host]);
 
-      // Fetch timer logs from recent comments FIRST (needed for trends)
-      let logs: any[] = [];
-      try {
-        logs = await api.fetchTimerLogs();
-        setTimerLogs(logs);
+  // Atualização automática: barata graças à sincronização incremental dos timers
+  useEffect(() => {
+    if (!settingsLoaded || !settings.autoRefresh) return;
+
+    const interval = setInterval(() => {
+      fetchAnalyticsData({ background: true });
+    }, settings.refreshInterval || refreshInterval);
+
+    return () => clearInterval(interval);
+  }, [fetchAnalyticsData, settingsLoaded, settings.autoRefresh, settings.refreshInterval, refreshInterval]);
+
+  const updateSettings = useCallback(async (changes: Partial<WidgetSettings>) => {
+    const nextSettings = { ...settings, ...changes };
+    await saveWidgetSettings(host, nextSettings);
+    setSettings(nextSettings);
+  }, [host, settings]);
+
+  const handleSaveAlertConfig = useCallback(async (alertConfig: AlertConfig) => {
+    await updateSettings({ alertConfig });
+    setShowSettings(false);
+  }, [updateSettings]);
+
+  const handleSaveWorkCalendar = useCallback(async (workCalendar: Partial<WorkCalendarConfig>) => {
+    await updateSettings({ workCalendar });
+    setShowSettings(false);
+  }, [updateSettings]);
+
+  const handleSaveTrendCalendar = useCallback(async (trendCalendar: Partial<TrendCalendar>) => {
+    await updateSettings({ trendCalendar });
+    setShowSettings(false);
+  }, [updateSettings]);
+
+  const handleElapsedModeChange = useCallback((mode: ElapsedTimeMode) => {
+    updateSettings({ elapsedMode: mode }).catch(err => {
+      logger.error('Failed to store elapsed mode', err as Error);
+    });
+  }, [updateSettings, logger]);
+
+  const handleGroupByChange = useCallback((groupBy: DisplayConfig['groupBy']) => {
+    updateSettings({ displayConfig: { ...DEFAULT_DISPLAY_CONFIG, ...settings.displayConfig, groupBy } }).catch(err => {
+      logger.error('Failed to store display config', err as Error);
+    });
+  }, [updateSettings, settings.displayConfig, logger]);
+
+  const handleAutoRefreshChange = useCallback((autoRefresh: boolean) => {
+    updateSettings({ autoRefresh }).catch(err => {
+      logger.error('Failed to store auto refresh setting', err as Error);
+    });
+  }, [updateSettings, logger]);
+
+  const handleHideCompletedChange = useCallback((hideCompleted: boolean) => {
+    updateSettings({ filterConfig: { ...settings.filterConfig, hideCompleted } }).catch(err => {
+      logger.error('Failed to store filter config', err as Error);
+    });
+  }, [updateSettings, settings.filterConfig, logger]);
+
+  // Busca os logs do período escolhido no painel (todas as páginas)
+  // Só a busca mais recente vale: a anterior é cancelada e o resultado dela, ignorado
+  const handleLogRangeChange = useCallback(async (range: LogDateRange) => {
+    setLogRange(range);
+    logRangeRequestRef.current?.abort();
+    logRangeRequestRef.current = null;
+    setLoadingLogs(false);
+
+    const bounds = logRangeBounds(range);
+    if (!bounds) return;
+
+    const controller = new AbortController();
+    logRangeRequestRef.current = controller;
+    setLoadingLogs(true);
+    try {
+      const logs = await api.fetchTimerLogs({ ...bounds, pagination: { signal: controller.signal } });
+      // Fontes que falham viram listas vazias, então uma busca cancelada ainda pode resolver
+      if (!controller.signal.aborted) {
+        setRangeLogs(logs);
         setLastLogsUpdate(Date.now());
-      } catch (logsError) {
-        logger.error('Failed to fetch timer logs', logsError);
-        setTimerLogs([]);
       }
-
-      // Calculate trends using historical timer logs
-      const trends = logs.length > 0
-        ? calculateHistoricalTrends(logs)
-        : workItems.length > 0
-        ? calculateAdvancedTrends(workItems, timers)
-        : calculateFallbackTrends(timers);
-
-      setSystemUsers(users.length);
-      setData({ timers, stats, trends });
-
-    } catch (err) {
-      logger.error('Failed to fetch analytics data', err as Error);
-      setError('Falha ao carregar dados de analytics');
+    } catch (logsError) {
+      if (!controller.signal.aborted) {
+        logger.error('Failed to fetch timer logs for range', logsError as Error);
+      }
     } finally {
-      setLoading(false);
+      if (logRangeRequestRef.current === controller) {
+        logRangeRequestRef.current = null;
+        setLoadingLogs(false);
+      }
     }
   }, [api, logger]);
 
-  // Initial load only (no auto refresh)
-  useEffect(() => {
-    // Limpar cache de cores para garantir aplicação das novas cores
-    clearProjectColorCache();
-    fetchAnalyticsData();
-  }, [fetchAnalyticsData]);
+  // Cancela a busca de logs pendente ao desmontar
+  useEffect(() => () => logRangeRequestRef.current?.abort(), []);
 
   // Filtros e dados processados
   const availableProjects = useMemo(() => {
@@ -439,24 +471,38 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
     return data.timers.filter(timer => timer.projectShortName === selectedProject);
   }, [data, selectedProject]);
 
+  // Agrupamento por issue (vários usuários na mesma issue)
+  const issueGroups = useMemo(() => {
+    if (!groupByIssue) return [];
+    return calculateIssueBreakdown(filteredTimers);
+  }, [filteredTimers, groupByIssue]);
+
+  const availableUsers = useMemo(() => {
+    if (!data?.timers) return [];
+    return Array.from(new Set(data.timers.map(t => t.username))).sort();
+  }, [data]);
+
+  // Logs do painel: período escolhido, ou os últimos 7 dias dos dados auxiliares
+  const panelLogs = rangeLogs ?? timerLogs;
+
   // Listas para filtros de logs
   const availableLogProjects = useMemo(() => {
-    if (!timerLogs || timerLogs.length === 0) return [];
-    const projects = new Set(timerLogs.map(log => log.projectShortName));
+    if (!panelLogs || panelLogs.length === 0) return [];
+    const projects = new Set(panelLogs.map(log => log.projectShortName));
     return Array.from(projects).sort();
-  }, [timerLogs]);
+  }, [panelLogs]);
 
   const availableLogUsers = useMemo(() => {
-    if (!timerLogs || timerLogs.length === 0) return [];
-    const users = new Set(timerLogs.map(log => log.author?.fullName || log.author?.login).filter(Boolean));
+    if (!panelLogs || panelLogs.length === 0) return [];
+    const users = new Set(panelLogs.map(log => log.author?.fullName || log.author?.login).filter(Boolean));
     return Array.from(users).sort();
-  }, [timerLogs]);
+  }, [panelLogs]);
 
   // Logs filtrados
   const filteredTimerLogs = useMemo(() => {
-    if (!timerLogs) return [];
+    if (!panelLogs) return [];
 
-    let filtered = timerLogs;
+    let filtered = panelLogs;
 
     if (selectedLogProject !== 'all') {
       filtered = filtered.filter(log => log.projectShortName === selectedLogProject);
@@ -470,7 +516,12 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
     }
 
     return filtered;
-  }, [timerLogs, selectedLogProject, selectedLogUser]);
+  }, [panelLogs, selectedLogProject, selectedLogUser]);
+
+  // Volta para a primeira página quando o período ou os filtros mudam
+  useEffect(() => {
+    setVisibleLogCount(LOG_PAGE_SIZE);
+  }, [panelLogs, selectedLogProject, selectedLogUser]);
 
   // Stats rápidas
   const quickStats = useMemo(() => {
@@ -491,7 +542,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
   const trendsChartData = useMemo(() => {
     if (!data?.trends) return null;
 
-    let trendsData: any[] = [];
+    let trendsData: TrendPoint[] = [];
     let labels: string[] = [];
 
     switch (selectedTimeRange) {
@@ -511,12 +562,18 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
         trendsData = data.trends.monthly;
         labels = trendsData.map(d => d.label);
         break;
+      case 'weeks':
+        // Snapshots salvos por versões anteriores não têm a série
+        trendsData = data.trends.calendarWeeks || [];
+        labels = trendsData.map(d => d.label);
+        break;
       default:
         trendsData = data.trends.hourly;
         labels = trendsData.map(d => d.label);
     }
 
-    const values = trendsData.map((d: any) => d.count); // Sempre usar count (timers iniciados)
+    // Sempre usar count (timers iniciados); períodos sem dados ficam em branco em vez de zero
+    const values = trendsData.map(d => d.gap ? null : d.count);
 
     return {
       labels,
@@ -535,12 +592,16 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
           pointBackgroundColor: 'rgba(0, 122, 204, 1)',
           pointBorderColor: '#ffffff',
           pointBorderWidth: 2,
-          cubicInterpolationMode: 'monotone' as const // Interpolação suave
+          cubicInterpolationMode: 'monotone' as const, // Interpolação suave
+          spanGaps: false,
+          sources: trendsData.map(d => d.source)
         }
       ]
     };
   }, [data, selectedTimeRange]);
 
+  const trendGapCount = trendsChartData ? trendsChartData.datasets[0].data.filter(value => value === null).length : 0;
+
   // Chart data para projetos
   const projectsChartData = useMemo(() => {
     if (!data?.stats?.projectBreakdown) return null;
@@ -562,13 +623,63 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
     };
   }, [data]);
 
+  // Chart data para estimativa vs. realizado por projeto
+  const estimationChartData = useMemo(() => {
+    if (!data?.timers) return null;
+
+    const projects = calculateProjectEstimations(data.timers);
+    if (projects.length === 0) return null;
+
+    return {
+      labels: projects.map(p => p.overrunIssues > 0 ? `${p.projectShortName} (${p.overrunIssues} estouradas)` : p.projectShortName),
+      datasets: [
+        {
+          label: 'Estimado (h)',
+          data: projects.map(p => msToHours(p.estimateMs)),
+          backgroundColor: getStatusColor('ok'),
+          borderWidth: 2,
+          borderColor: '#ffffff'
+        },
+        {
+          label: 'Realizado (h)',
+          data: projects.map(p => msToHours(p.actualMs)),
+          backgroundColor: projects.map(p => getStatusColor(p.actualMs > p.estimateMs ? 'critical' : 'attention')),
+          borderWidth: 2,
+          borderColor: '#ffffff'
+        }
+      ]
+    };
+  }, [data]);
+
+  // Chart data para tipos de trabalho
+  const worktypeChartData = useMemo(() => {
+    if (!data?.stats?.worktypeBreakdown?.length) return null;
+
+    const worktypes = data.stats.worktypeBreakdown;
+
+    return {
+      labels: worktypes.map(w => w.worktype
+        ? `${w.worktype}${w.valid === false ? ' (?)' : ''}`
+        : 'Sem tipo'),
+      datasets: [
+        {
+          label: 'Duração Total (h)',
+          data: worktypes.map(w => msToHours(w.totalTimeMs)),
+          backgroundColor: worktypes.map((_, index) => getProjectColor(index)),
+          borderWidth: 2,
+          borderColor: '#ffffff'
+        }
+      ]
+    };
+  }, [data]);
+
   // Chart data para status
   const statusDistributionData = useMemo(() => {
     if (!data?.timers) return {
-      labels: ['OK', 'Atenção', 'Longo', 'Crítico'],
+      labels: ['OK', 'Atenção', 'Longo', 'Crítico', 'Pausado', 'Obsoleto'],
       datasets: [{
-        data: [0, 0, 0, 0],
-        backgroundColor: ['#28a745', '#ffc107', '#fd7e14', '#dc3545']
+        data: [0, 0, 0, 0, 0, 0],
+        backgroundColor: ['#28a745', '#ffc107', '#fd7e14', '#dc3545', '#3399ff', '#6d6d76']
       }]
     };
 
@@ -576,11 +687,13 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
       ok: data.timers.filter(t => t.status === 'ok').length,
       attention: data.timers.filter(t => t.status === 'attention').length,
       long: data.timers.filter(t => t.status === 'long').length,
-      critical: data.timers.filter(t => t.status === 'critical').length
+      critical: data.timers.filter(t => t.status === 'critical').length,
+      paused: data.timers.filter(t => t.status === 'paused').length,
+      stale: data.timers.filter(t => t.status === 'stale').length
     };
 
     return {
-      labels: ['OK', 'Atenção', 'Longo', 'Crítico'],
+      labels: ['OK', 'Atenção', 'Longo', 'Crítico', 'Pausado', 'Obsoleto'],
       datasets: [
         {
           data: Object.values(statusCounts),
@@ -588,7 +701,9 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
             getStatusColor('ok'),
             getStatusColor('attention'),
             getStatusColor('long'),
-            getStatusColor('critical')
+            getStatusColor('critical'),
+            getStatusColor('paused'),
+            getStatusColor('stale')
           ],
           borderWidth: 2,
           borderColor: '#ffffff'
@@ -643,6 +758,22 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
     }
   };
 
+  // Tendências: tooltip com a origem do ponto
+  const trendChartOptions = {
+    ...chartOptions,
+    plugins: {
+      ...chartOptions.plugins,
+      tooltip: {
+        callbacks: {
+          label: (context: any) => {
+            const source: TrendSource | undefined = context.dataset.sources?.[context.dataIndex];
+            return `${context.dataset.label}: ${context.parsed.y}${source ? ` (${TREND_SOURCE_LABELS[source]})` : ''}`;
+          }
+        }
+      }
+    }
+  };
+
   if (loading) {
     return (
       <div className="widget-container timer-analytics">
@@ -654,7 +785,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
         </div>
         <div className="loading-container">
           <div className="loader"></div>
-          <span>Carregando dados de analytics...</span>
+          <span>Carregando dados de analytics...{loadingProgress ? ` (${loadingProgress})` : ''}</span>
         </div>
       </div>
     );
@@ -666,7 +797,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
         <div className="analytics-header">
           <h2>📊 Timer Analytics</h2>
           <div className="header-controls">
-            <button onClick={fetchAnalyticsData} className="refresh-button">
+            <button type="button" onClick={() => fetchAnalyticsData()} className="refresh-button">
               Tentar Novamente
             </button>
           </div>
@@ -676,7 +807,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
           <div className="error-content">
             <h3>Erro ao Carregar Analytics</h3>
             <p>{error}</p>
-            <button onClick={fetchAnalyticsData} className="retry-button">
+            <button type="button" onClick={() => fetchAnalyticsData()} className="retry-button">
               🔄 Tentar Novamente
             </button>
           </div>
@@ -685,7 +816,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
     );
   }
 
-  if (!data?.timers?.length) {
+  if (!data) {
     return (
       <div className="widget-container timer-analytics">
         <div className="empty-state">
@@ -704,12 +835,97 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
         <h2>📊 Timer Analytics</h2>
       </div>
       <div className="header-actions">
-        <button onClick={fetchAnalyticsData} className="refresh-button" disabled={loading}>
+        <select
+          value={elapsedMode}
+          onChange={(e) => handleElapsedModeChange(e.target.value as ElapsedTimeMode)}
+          className="control-select"
+          title="Tempo usado nos status e estatísticas"
+        >
+          <option value="wall">Tempo corrido</option>
+          <option value="working">Tempo útil</option>
+        </select>
+        <label className="header-toggle" title="Timers em issues resolvidas ou projetos arquivados">
+          <input
+            type="checkbox"
+            checked={Boolean(settings.filterConfig?.hideCompleted)}
+            onChange={(e) => handleHideCompletedChange(e.target.checked)}
+          />
+          Ocultar obsoletos{data?.hiddenTimers ? ` (${data.hiddenTimers})` : ''}
+        </label>
+        <label className="header-toggle" title="Busca só as issues alteradas desde a última atualização">
+          <input
+            type="checkbox"
+            checked={Boolean(settings.autoRefresh)}
+            onChange={(e) => handleAutoRefreshChange(e.target.checked)}
+          />
+          Atualização automática
+        </label>
+        <button type="button" onClick={() => setShowSettings(prev => !prev)} className="refresh-button">
+          ⚙️ Configurar
+        </button>
+        <button type="button" onClick={() => fetchAnalyticsData()} className="refresh-button" disabled={loading}>
           Atualizar
         </button>
       </div>
       </div>
 
+      {snapshotInfo && (
+        <div className={`snapshot-banner ${snapshotInfo.offline ? 'offline' : ''}`}>
+          <span>
+            📦 Snapshot de {format(snapshotInfo.savedAt, isToday(snapshotInfo.savedAt) ? 'HH:mm' : 'dd/MM HH:mm')}
+            {snapshotInfo.offline ? ' – YouTrack indisponível' : ' – atualizando em segundo plano…'}
+          </span>
+          {snapshotInfo.offline && (
+            <button type="button" onClick={() => fetchAnalyticsData({ background: true })} className="refresh-button">
+              Tentar novamente
+            </button>
+          )}
+        </div>
+      )}
+
+      {showSettings && settings.alertConfig && (
+        <ThresholdSettings
+          alertConfig={settings.alertConfig}
+          availableProjects={availableProjects}
+          availableUsers={availableUsers}
+          onSave={handleSaveAlertConfig}
+          onCancel={() => setShowSettings(false)}
+        />
+      )}
+
+      {showSettings && (
+        <WorkCalendarSettings
+          calendar={settings.workCalendar || {}}
+          profileCalendar={workCalendarFromProfile(timeTrackingProfile)}
+          locale={trendCalendarFromProfile(appearanceProfile).locale}
+          onSave={handleSaveWorkCalendar}
+          onCancel={() => setShowSettings(false)}
+        />
+      )}
+
+      {showSettings && (
+        <TrendCalendarSettings
+          calendar={settings.trendCalendar || {}}
+          profileCalendar={trendCalendarFromProfile(appearanceProfile)}
+          onSave={handleSaveTrendCalendar}
+          onCancel={() => setShowSettings(false)}
+        />
+      )}
+
+      {data && <TimerDiagnosticsPanel diagnostics={data.diagnostics} />}
+
+      {/* Sem timers visíveis: cabeçalho e configurações continuam na tela para reexibir os ocultos */}
+      {data.timers.length === 0 && (
+        <div className="empty-state">
+          <span className="empty-icon">📊</span>
+          <span>
+            {data.hiddenTimers
+              ? `${data.hiddenTimers} timer(s) oculto(s) como obsoletos – desmarque "Ocultar obsoletos" para vê-los`
+              : 'Nenhum timer ativo'}
+          </span>
+        </div>
+      )}
+
       {/* Key Metrics */}
       <div className="metrics-grid">
         <div className="metric-card">
@@ -759,6 +975,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
                 <span>
                   Total de {filteredTimers.length} timers
                   {selectedProject !== 'all' ? ` em ${selectedProject}` : ' ativos'}
+                  {groupByIssue && ` em ${issueGroups.length} issues`}
                 </span>
                 {filteredTimers.length > 6 && (
                   <span className="scroll-hint">Role para ver todos</span>
@@ -776,57 +993,116 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
                   <option key={project} value={project}>{project}</option>
                 ))}
               </select>
+              <select
+                value={groupByIssue ? 'issue' : 'none'}
+                onChange={(e) => handleGroupByChange(e.target.value as DisplayConfig['groupBy'])}
+                className="control-select"
+              >
+                <option value="none">Por timer</option>
+                <option value="issue">Agrupar por issue</option>
+              </select>
             </div>
           </div>
 
           <div className="active-issues-scroll">
-            <div className="active-issues-grid">
-              {filteredTimers.map((timer, index) => (
-                <div key={`${timer.issueId}-${timer.username}-${index}`} className="active-issue-card">
-                  <div className="issue-header">
-                    <div className="issue-header-left">
-                      <a
-                        href={timer.issueUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="issue-id"
-                      >
-                        {timer.issueKey}
-                      </a>
-                      <span
-                        className="issue-project"
-                        style={{ backgroundColor: getCachedProjectColor(timer.projectShortName) }}
-                      >
-                        {timer.projectShortName}
-                      </span>
-                    </div>
-                    <div className="issue-header-right">
-                      <div className="issue-status">
-                        <span className={`status-badge ${timer.status}`}>
-                          {timer.status === 'ok' ? 'OK' :
-                           timer.status === 'attention' ? 'ATENÇÃO' :
-                           timer.status === 'long' ? 'LONGO' :
-                           'CRÍTICO'}
+            {groupByIssue ? (
+              <IssueCollaborationGrid issues={issueGroups} timers={filteredTimers} />
+            ) : (
+              <div className="active-issues-grid">
+                {filteredTimers.map((timer, index) => (
+                  <div key={`${timer.issueId}-${timer.username}-${index}`} className="active-issue-card">
+                    <div className="issue-header">
+                      <div className="issue-header-left">
+                        <a
+                          href={timer.issueUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="issue-id"
+                        >
+                          {timer.issueKey}
+                        </a>
+                        <span
+                          className="issue-project"
+                          style={{ backgroundColor: getCachedProjectColor(timer.projectShortName) }}
+                        >
+                          {timer.projectShortName}
                         </span>
                       </div>
+                      <div className="issue-header-right">
+                        {timer.anomaly?.unusual && (
+                          <span
+                            className="status-badge unusual"
+                            title={`Incomum para ${timer.username}: mediana ${formatDurationHHMM(timer.anomaly.medianMs)}, percentil ${timer.anomaly.percentile} (${timer.anomaly.sampleCount} sessões${timer.anomaly.baseline === 'user_worktype' ? ` de ${timer.worktype}` : ''})`}
+                          >
+                            INCOMUM
+                          </span>
+                        )}
+                        <div className="issue-status">
+                          <span className={`status-badge ${timer.status}`}>
+                            {timer.status === 'ok' ? 'OK' :
+                             timer.status === 'attention' ? 'ATENÇÃO' :
+                             timer.status === 'long' ? 'LONGO' :
+                             timer.status === 'paused' ? 'PAUSADO' :
+                             timer.status === 'stale' ? 'OBSOLETO' :
+                             'CRÍTICO'}
+                          </span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="issue-title">
-                    {timer.issueSummary}
-                  </div>
+                    <div className="issue-title">
+                      {timer.issueSummary}
+                    </div>
 
-                  <div className="issue-meta">
-                    <span className="timer-duration">
-                      {formatDurationHHMM(timer.elapsedMs)}
-                    </span>
-                    <span className="timer-user">
-                      👤 {timer.username}
-                    </span>
+                    <div className="issue-meta">
+                      <span className="timer-duration">
+                        {formatDurationHHMM(timer.elapsedMs)}
+                        {timer.workingElapsedMs !== undefined && (
+                          <span className="timer-duration-alt">
+                            {elapsedMode === 'working'
+                              ? ` (corrido ${formatDurationHHMM(timer.wallElapsedMs)})`
+                              : ` (útil ${formatDurationHHMM(timer.workingElapsedMs)})`}
+                          </span>
+                        )}
+                        {timer.pausedMs > 0 && (
+                          <span className="timer-duration-alt">
+                            {` ⏸️ ${formatDurationHHMM(timer.pausedMs)}`}
+                          </span>
+                        )}
+                      </span>
+                      <span
+                        className="timer-user"
+                        title={timer.identity
+                          ? [timer.identity.login, timer.identity.email, ...timer.identity.groups].filter(Boolean).join(' • ')
+                          : undefined}
+                      >
+                        {settings.displayConfig?.showUserAvatars && timer.identity?.avatarUrl
+                          ? <img className="timer-user-avatar" src={timer.identity.avatarUrl} alt="" />
+                          : '👤'} {timer.identity?.fullName || timer.username}
+                        {timer.identity?.renamed && ` (${timer.username})`}
+                        {timer.identity?.banned && ' 🚫'}
+                      </span>
+                      {timer.estimation?.consumedPercent !== undefined && (
+                        <span
+                          className={`timer-estimation ${timer.estimation.status}`}
+                          title={`Estimativa ${formatDurationHHMM(timer.estimation.estimateMs || 0)} • lançado ${formatDurationHHMM(timer.estimation.spentMs)} • em andamento ${formatDurationHHMM(timer.estimation.issueRunningMs)}`}
+                        >
+                          📐 {timer.estimation.consumedPercent}%
+                        </span>
+                      )}
+                      {timer.worktype && (
+                        <span
+                          className={`timer-worktype ${timer.worktypeValid === false ? 'unknown' : ''}`}
+                          title={timer.worktypeValid === false ? 'Tipo de trabalho não cadastrado no YouTrack' : undefined}
+                        >
+                          🛠️ {timer.worktype}
+                        </span>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -849,13 +1125,19 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
                   <option value="day">Último Dia</option>
                   <option value="week">Última Semana</option>
                   <option value="month">Último Mês</option>
+                  <option value="weeks">Semanas (calendário)</option>
                 </select>
 
               </div>
             </div>
             <div className="chart-wrapper">
-              <Line data={trendsChartData} options={chartOptions} />
+              <Line data={trendsChartData} options={trendChartOptions} />
             </div>
+            {trendGapCount > 0 && (
+              <div className="trend-gaps-note">
+                {trendGapCount} período(s) sem dados: nenhum evento de timer ou work item foi lido para eles
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -900,6 +1182,82 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
           </div>
         )}
 
+        {/* Estimation vs. Actual Chart */}
+        {showProjectBreakdown && estimationChartData && (
+          <div className="chart-container">
+            <h3>📐 Estimado vs. Realizado por Projeto</h3>
+            <div className="chart-wrapper">
+              <Bar
+                data={estimationChartData}
+                options={{
+                  ...chartOptions,
+                  plugins: {
+                    legend: {
+                      display: true
+                    },
+                    tooltip: {
+                      callbacks: {
+                        label: function(context: any) {
+                          const value = context.parsed.y;
+                          return `${context.dataset.label}: ${formatHoursForChart(value)}`;
+                        }
+                      }
+                    }
+                  },
+                  scales: {
+                    y: {
+                      beginAtZero: true,
+                      ticks: {
+                        callback: function(value: any) {
+                          return formatHoursForChart(value);
+                        }
+                      }
+                    }
+                  }
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Worktype Breakdown Chart */}
+        {worktypeChartData && (
+          <div className="chart-container">
+            <h3>🛠️ Breakdown por Tipo de Trabalho</h3>
+            <div className="chart-wrapper">
+              <Bar
+                data={worktypeChartData}
+                options={{
+                  ...chartOptions,
+                  plugins: {
+                    legend: {
+                      display: false
+                    },
+                    tooltip: {
+                      callbacks: {
+                        label: function(context: any) {
+                          const value = context.parsed.y;
+                          return `${context.dataset.label}: ${formatHoursForChart(value)}`;
+                        }
+                      }
+                    }
+                  },
+                  scales: {
+                    y: {
+                      beginAtZero: true,
+                      ticks: {
+                        callback: function(value: any) {
+                          return formatHoursForChart(value);
+                        }
+                      }
+                    }
+                  }
+                }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Status Distribution Chart */}
         <div className="chart-container">
           <h3>🎯 Distribuição por Status</h3>
@@ -920,11 +1278,18 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
         </div>
       </div>
 
+      {/* Data Integrity */}
+      {data && (
+        <div className="timer-logs-section">
+          <DataIntegrityPanel report={data.integrity} />
+        </div>
+      )}
+
       {/* Timer Logs Section - Work Items as Timer Logs */}
       <div className="timer-logs-section">
         <div className="timer-logs-container">
           <div className="logs-header">
-            <h3>📝 Logs de Timer ({filteredTimerLogs.length})</h3>
+            <h3>📝 Logs de Timer ({filteredTimerLogs.length}){loadingLogs && ' ⏳'}</h3>
             <div className="chart-filters">
               <select
                 value={selectedLogProject}
@@ -946,6 +1311,22 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
                   <option key={user} value={user}>{user}</option>
                 ))}
               </select>
+              <input
+                type="date"
+                value={logRange.from}
+                max={logRange.to}
+                onChange={(e) => handleLogRangeChange({ ...logRange, from: e.target.value })}
+                className="control-select"
+                aria-label="Logs a partir de"
+              />
+              <input
+                type="date"
+                value={logRange.to}
+                min={logRange.from}
+                onChange={(e) => handleLogRangeChange({ ...logRange, to: e.target.value })}
+                className="control-select"
+                aria-label="Logs até"
+              />
             </div>
             {lastLogsUpdate > 0 && (
               <span className="logs-timestamp">
@@ -956,11 +1337,11 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
           <div className="timer-logs-content">
             {filteredTimerLogs.length > 0 ? (
               <div className="timer-logs-list">
-                {filteredTimerLogs.slice(0, 15).map((log, index) => (
+                {filteredTimerLogs.slice(0, visibleLogCount).map((log, index) => (
                   <div key={`${log.id}-${index}`} className={`timer-log-item ${log.type}`}>
                     <div className="log-header">
                       <span className="log-issue-key">{log.issueKey}</span>
-                      <span className="log-work-type">{log.workType}</span>
+                      <span className="log-work-type">{log.workType || 'N/A'}</span>
                       <span className="log-duration">{log.duration || '-'}</span>
                       <span className="log-time">
                         {new Date(log.created).toLocaleString('pt-BR', {
@@ -990,9 +1371,15 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
                     </div>
                   </div>
                 ))}
-                {filteredTimerLogs.length > 15 && (
+                {filteredTimerLogs.length > visibleLogCount && (
                   <div className="timer-logs-more">
-                    +{filteredTimerLogs.length - 15} logs mais antigos (últimas 24 horas)
+                    <button
+                      type="button"
+                      className="timer-logs-load-more"
+                      onClick={() => setVisibleLogCount(count => count + LOG_PAGE_SIZE)}
+                    >
+                      Carregar mais ({filteredTimerLogs.length - visibleLogCount} logs mais antigos)
+                    </button>
                   </div>
                 )}
               </div>
@@ -1005,7 +1392,7 @@ const TimerAnalytics: React.FC<TimerAnalyticsProps> = memo(({
                   <li>🔴 <strong>Parar um timer ativo</strong> e criar work item</li>
                   <li>⏱️ <strong>Ações são registradas em tempo real</strong></li>
                 </ul>
-                <p><small>Mostra work items criados nos últimos 7 dias</small></p>
+                <p><small>{loadingLogs ? 'Buscando logs do período...' : 'Nenhum log no período selecionado'}</small></p>
               </div>
             )}
           </div>
@@ -0,0 +1,69 @@
+/**
+ * Painel de diagnóstico do campo Timer Hash Data (entradas rejeitadas ou corrigidas pelo parser)
+ */
+
+import React, { useState, memo } from 'react';
+import { TimerParseDiagnostic, TimerParseDiagnosticCode } from '../../types';
+
+interface TimerDiagnosticsPanelProps {
+  diagnostics: TimerParseDiagnostic[];
+}
+
+const CODE_LABELS: Record<TimerParseDiagnosticCode, string> = {
+  INVALID_JSON: 'JSON inválido',
+  INVALID_ROOT: 'Estrutura inválida',
+  UNSUPPORTED_VERSION: 'Versão não suportada',
+  EMPTY_USERNAME: 'Usuário vazio',
+  INVALID_ENTRY: 'Entrada inválida',
+  MISSING_START: 'Sem início',
+  INVALID_SEGMENT: 'Segmento inválido',
+  INVALID_TIMESTAMP: 'Timestamp inválido',
+  TIMESTAMP_OUT_OF_RANGE: 'Timestamp fora do intervalo',
+  MISSING_PAUSE_TIME: 'Pausa sem horário'
+};
+
+const TimerDiagnosticsPanel: React.FC<TimerDiagnosticsPanelProps> = memo(({ diagnostics }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="timer-diagnostics">
+      <div className="timer-diagnostics-header">
+        <span>
+          ⚠️ {diagnostics.length} {diagnostics.length === 1 ? 'entrada com problema' : 'entradas com problema'} no Timer Hash Data
+        </span>
+        <button type="button" onClick={() => setExpanded(prev => !prev)} className="refresh-button">
+          {expanded ? 'Ocultar' : 'Detalhes'}
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="timer-diagnostics-list">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={`${diagnostic.issueId}_${diagnostic.username || ''}_${index}`}>
+              <a
+                href={`/issue/${diagnostic.issueKey || diagnostic.issueId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="timer-diagnostics-issue"
+              >
+                {diagnostic.issueKey || diagnostic.issueId}
+              </a>
+              {diagnostic.username && <span className="timer-diagnostics-user">{diagnostic.username}</span>}
+              <span className="timer-diagnostics-code">{CODE_LABELS[diagnostic.code] || diagnostic.code}</span>
+              <span className="timer-diagnostics-message">{diagnostic.message}</span>
+              {diagnostic.rawValue && <code className="timer-diagnostics-raw">{diagnostic.rawValue}</code>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+TimerDiagnosticsPanel.displayName = 'TimerDiagnosticsPanel';
+
+export default TimerDiagnosticsPanel;
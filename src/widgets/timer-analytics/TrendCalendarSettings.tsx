@@ -0,0 +1,115 @@
+/**
+ * Painel de configuração do calendário das tendências (fuso horário e início da semana)
+ */
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import { TrendCalendar } from '../../types';
+import { isValidTimeZone, weekdayLabels } from '../../services/trends';
+
+interface TrendCalendarSettingsProps {
+  calendar: Partial<TrendCalendar>;
+  profileCalendar: TrendCalendar; // Calendário vindo do perfil de aparência (sem overrides)
+  onSave: (calendar: Partial<TrendCalendar>) => Promise<void>;
+  onCancel: () => void;
+}
+
+const TrendCalendarSettings: React.FC<TrendCalendarSettingsProps> = memo(({
+  calendar,
+  profileCalendar,
+  onSave,
+  onCancel
+}) => {
+  const [timeZone, setTimeZone] = useState(calendar.timeZone || '');
+  const [weekStartsOn, setWeekStartsOn] = useState(calendar.weekStartsOn ?? profileCalendar.weekStartsOn);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Fusos conhecidos pelo navegador (sugestões; qualquer nome IANA válido é aceito)
+  const timeZones = useMemo<string[]>(() => (Intl as any).supportedValuesOf?.('timeZone') || [], []);
+  const browserTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  // Dias da semana no idioma do perfil, como nas tendências
+  const dayLabels = useMemo(() => weekdayLabels(profileCalendar), [profileCalendar]);
+
+  const handleSave = useCallback(async () => {
+    const zone = timeZone.trim();
+    const validationErrors = zone && !isValidTimeZone(zone) ? [`Fuso horário desconhecido: ${zone}`] : [];
+
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      // Fuso vazio volta para o perfil do usuário
+      await onSave({ ...calendar, timeZone: zone || undefined, weekStartsOn });
+    } catch (error) {
+      setErrors([`Falha ao salvar configuração: ${(error as Error).message}`]);
+    } finally {
+      setSaving(false);
+    }
+  }, [calendar, timeZone, weekStartsOn, onSave]);
+
+  return (
+    <div className="threshold-settings">
+      <div className="threshold-settings-header">
+        <h3>🌍 Calendário das Tendências</h3>
+        <span className="threshold-settings-hint">
+          Perfil: {profileCalendar.timeZone || `${browserTimeZone} (navegador)`}
+        </span>
+      </div>
+
+      <div className="threshold-section">
+        <label className="threshold-label">
+          Fuso horário (vazio = perfil do usuário)
+          <input
+            className="threshold-input trend-timezone-input"
+            list="trend-timezones"
+            placeholder={profileCalendar.timeZone || browserTimeZone}
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+          />
+          <datalist id="trend-timezones">
+            {timeZones.map(zone => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+        </label>
+      </div>
+
+      <div className="threshold-section">
+        <label className="threshold-label">
+          Início da semana
+          <select
+            className="threshold-input"
+            value={weekStartsOn}
+            onChange={(e) => setWeekStartsOn(parseInt(e.target.value, 10) as TrendCalendar['weekStartsOn'])}
+          >
+            {dayLabels.map((label, day) => (
+              <option key={label} value={day}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="threshold-errors">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="threshold-actions">
+        <button type="button" onClick={onCancel} className="refresh-button" disabled={saving}>
+          Cancelar
+        </button>
+        <button type="button" onClick={handleSave} className="refresh-button" disabled={saving}>
+          {saving ? 'Salvando...' : 'Salvar'}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+TrendCalendarSettings.displayName = 'TrendCalendarSettings';
+
+export default TrendCalendarSettings;
@@ -0,0 +1,120 @@
+/**
+ * Painel de configuração do calendário de trabalho (feriados e início do expediente)
+ */
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import { WorkCalendarConfig } from '../../types';
+import { weekdayLabels } from '../../services/trends';
+
+interface WorkCalendarSettingsProps {
+  calendar: Partial<WorkCalendarConfig>;
+  profileCalendar: WorkCalendarConfig; // Calendário vindo do perfil de time tracking (sem overrides)
+  locale?: string; // Idioma dos dias da semana (perfil de aparência)
+  onSave: (calendar: Partial<WorkCalendarConfig>) => Promise<void>;
+  onCancel: () => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const WorkCalendarSettings: React.FC<WorkCalendarSettingsProps> = memo(({
+  calendar,
+  profileCalendar,
+  locale,
+  onSave,
+  onCancel
+}) => {
+  const [holidaysText, setHolidaysText] = useState((calendar.holidays || []).join('\n'));
+  const [startHour, setStartHour] = useState(calendar.workdayStartHour ?? profileCalendar.workdayStartHour);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const dayLabels = useMemo(() => weekdayLabels({ locale }), [locale]);
+
+  const handleSave = useCallback(async () => {
+    const holidays = holidaysText
+      .split(/[\s,;]+/)
+      .map(value => value.trim())
+      .filter(Boolean);
+
+    const validationErrors = holidays
+      .filter(holiday => !DATE_PATTERN.test(holiday) || isNaN(Date.parse(holiday)))
+      .map(holiday => `Data inválida: ${holiday} (use AAAA-MM-DD)`);
+
+    if (startHour < 0 || startHour > 23) {
+      validationErrors.push('O início do expediente deve estar entre 0 e 23');
+    }
+
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        ...calendar,
+        holidays: Array.from(new Set(holidays)).sort(),
+        workdayStartHour: startHour
+      });
+    } catch (error) {
+      setErrors([`Falha ao salvar configuração: ${(error as Error).message}`]);
+    } finally {
+      setSaving(false);
+    }
+  }, [calendar, holidaysText, startHour, onSave]);
+
+  return (
+    <div className="threshold-settings">
+      <div className="threshold-settings-header">
+        <h3>📅 Calendário de Trabalho</h3>
+        <span className="threshold-settings-hint">
+          Perfil: {profileCalendar.hoursADay}h/dia • {profileCalendar.workDays.map(day => dayLabels[day]).join(', ')}
+        </span>
+      </div>
+
+      <div className="threshold-section">
+        <label className="threshold-label">
+          Início do expediente (hora)
+          <input
+            className="threshold-input"
+            type="number"
+            min="0"
+            max="23"
+            value={startHour}
+            onChange={(e) => setStartHour(parseInt(e.target.value, 10) || 0)}
+          />
+        </label>
+      </div>
+
+      <div className="threshold-section">
+        <label className="threshold-label">
+          Feriados (um por linha, AAAA-MM-DD)
+          <textarea
+            className="threshold-key-input calendar-holidays-input"
+            rows={4}
+            value={holidaysText}
+            onChange={(e) => setHolidaysText(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="threshold-errors">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="threshold-actions">
+        <button type="button" onClick={onCancel} className="refresh-button" disabled={saving}>
+          Cancelar
+        </button>
+        <button type="button" onClick={handleSave} className="refresh-button" disabled={saving}>
+          {saving ? 'Salvando...' : 'Salvar'}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+WorkCalendarSettings.displayName = 'WorkCalendarSettings';
+
+export default WorkCalendarSettings;